@@ -0,0 +1,52 @@
+/**
+ * Regenerate a bundled default keybindings snapshot
+ * 
+ * Usage: node scripts/generate-default-keybindings.js <exported.json> <darwin|linux|win32>
+ * 
+ * <exported.json> is the content of "Preferences: Open Default Keyboard Shortcuts (JSON)",
+ * saved on the target platform from an editor started with --disable-extensions
+ * (otherwise extension contributions end up in the snapshot).
+ */
+
+const fs = require('fs');
+const path = require('path');
+const jsonc = require('jsonc-parser');
+
+const PLATFORM_NAMES = { darwin: 'macOS', linux: 'Linux', win32: 'Windows' };
+
+const [inputPath, platform] = process.argv.slice(2);
+
+if (!inputPath || !PLATFORM_NAMES[platform]) {
+  console.error('Usage: node scripts/generate-default-keybindings.js <exported.json> <darwin|linux|win32>');
+  process.exit(1);
+}
+
+const errors = [];
+const entries = jsonc.parse(fs.readFileSync(inputPath, 'utf-8'), errors);
+
+if (errors.length > 0 || !Array.isArray(entries)) {
+  console.error(`${inputPath} is not a keybindings array`);
+  process.exit(1);
+}
+
+// One entry per line, with the fields in a fixed order
+const lines = entries
+  .filter(entry => entry && typeof entry.key === 'string' && typeof entry.command === 'string')
+  .map(({ key, command, when, args }) => JSON.stringify({ key, command, when, args })
+    .replace(/^\{/, '{ ')
+    .replace(/\}$/, ' }')
+    .replace(/","/g, '", "')
+    .replace(/":/g, '": '));
+
+const output = [
+  `// Snapshot of VS Code default keybindings (${PLATFORM_NAMES[platform]})`,
+  '// Regenerate with scripts/generate-default-keybindings.js',
+  '[',
+  lines.map(line => `  ${line}`).join(',\n'),
+  ']',
+  ''
+].join('\n');
+
+const outputPath = path.join(__dirname, '..', 'resources', 'defaultKeybindings', `${platform}.json`);
+fs.writeFileSync(outputPath, output);
+console.log(`Wrote ${lines.length} keybindings to ${outputPath}`);
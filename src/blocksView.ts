@@ -5,9 +5,10 @@
  */
 
 import * as vscode from 'vscode';
-import * as os from 'os';
-import { ParsedKeybinding } from './types';
+import { CategoryRule, ParsedKeybinding } from './types';
 import { KeybindingParser } from './parser';
+import { CategoryRuleEngine } from './categoryRules';
+import { CanonicalChords, TargetPlatform } from './canonicalChord';
 
 export class BlocksView implements vscode.WebviewViewProvider {
   private _view?: vscode.WebviewView;
@@ -49,9 +50,10 @@ export class BlocksView implements vscode.WebviewViewProvider {
    * Generate HTML for blocks view
    */
   private getWebviewContent(bindings: ParsedKeybinding[], nonce: string): string {
-    const platform = os.platform() as 'darwin' | 'win32' | 'linux';
     const config = vscode.workspace.getConfiguration('chordMap');
+    const platform = CanonicalChords.resolvePlatform(config.get<string>('targetPlatform', 'auto'));
     const showCommandTitle = config.get<boolean>('showCommandTitle', true);
+    const categoryRules = config.get<CategoryRule[]>('categoryRules', []);
     
     // Group by category
     const categories = new Map<string, ParsedKeybinding[]>();
@@ -67,9 +69,22 @@ export class BlocksView implements vscode.WebviewViewProvider {
     // Generate cards HTML
     let cardsHtml = '';
     
+    // Category colors from user rules (inline style attributes are blocked by the CSP)
+    let categoryStyles = '';
+    let colorIndex = 0;
+    
     for (const [category, categoryBindings] of categories) {
-      cardsHtml += `<div class="category-section">
-        <h2 class="category-title">${category}</h2>
+      const style = CategoryRuleEngine.getStyle(category, categoryRules);
+      let colorClass = '';
+      
+      if (style.color) {
+        const className = `category-color-${colorIndex++}`;
+        colorClass = ` colored ${className}`;
+        categoryStyles += `.${className} { --category-color: ${this.themeColorVar(style.color)}; }\n`;
+      }
+      
+      cardsHtml += `<div class="category-section${colorClass}">
+        <h2 class="category-title">${this.escapeHtml(category)}</h2>
         <div class="cards-grid">`;
       
       for (const binding of categoryBindings) {
@@ -78,18 +93,23 @@ export class BlocksView implements vscode.WebviewViewProvider {
         const label = binding.commandLabel || binding.command;
         const when = binding.when;
         const disabled = binding.disabled;
+        const conflicts = binding.conflictsWith || [];
+        const args = KeybindingParser.summarizeArgs(binding.args);
         
         // Determine what to show based on setting
         const primaryLabel = showCommandTitle ? label : commandId;
         const secondaryLabel = showCommandTitle && binding.commandLabel ? commandId : (binding.commandLabel || '');
         
         cardsHtml += `
-          <div class="card${disabled ? ' disabled' : ''}">
+          <div class="card${disabled ? ' disabled' : ''}${conflicts.length > 0 ? ' conflict' : ''}">
             <div class="card-key">${displayKey}</div>
             <div class="card-label">${this.escapeHtml(primaryLabel)}</div>
             ${secondaryLabel && secondaryLabel !== primaryLabel ? `<div class="card-command">${this.escapeHtml(secondaryLabel)}</div>` : ''}
+            ${binding.origin === 'extension' ? `<div class="card-command">${this.escapeHtml(binding.sourceEditor)}</div>` : ''}
+            ${args ? `<div class="card-args" title="${this.escapeHtml(JSON.stringify(binding.args, null, 2))}">${this.escapeHtml(args)}</div>` : ''}
             ${when ? `<div class="card-when" title="${this.escapeHtml(when)}">⚙️ Context-dependent</div>` : ''}
-            ${disabled ? '<div class="card-badge">Disabled</div>' : ''}
+            ${disabled ? `<div class="card-badge">${binding.origin === 'removed' ? 'Removed' : 'Disabled'}</div>` : ''}
+            ${conflicts.length > 0 ? `<div class="card-badge conflict-badge" title="${this.escapeHtml(conflicts.join('\n'))}">Conflict</div>` : ''}
           </div>`;
       }
       
@@ -151,10 +171,23 @@ export class BlocksView implements vscode.WebviewViewProvider {
       background: var(--vscode-list-hoverBackground);
     }
     
+    .category-section.colored .category-title {
+      color: var(--category-color);
+      border-bottom-color: var(--category-color);
+    }
+    
+    .category-section.colored .card {
+      border-left: 3px solid var(--category-color);
+    }
+    
     .card.disabled {
       opacity: 0.5;
     }
     
+    .card.conflict {
+      border-color: var(--vscode-list-warningForeground);
+    }
+    
     .card-key {
       font-family: 'SF Mono', Monaco, monospace;
       font-size: 12px;
@@ -184,6 +217,14 @@ export class BlocksView implements vscode.WebviewViewProvider {
       word-wrap: break-word;
     }
     
+    .card-args {
+      font-size: 11px;
+      color: var(--vscode-textPreformat-foreground);
+      font-family: 'SF Mono', Monaco, monospace;
+      margin-bottom: 6px;
+      word-wrap: break-word;
+    }
+    
     .card-when {
       font-size: 10px;
       color: var(--vscode-descriptionForeground);
@@ -212,6 +253,13 @@ export class BlocksView implements vscode.WebviewViewProvider {
       font-weight: 600;
     }
     
+    .conflict-badge {
+      background: var(--vscode-inputValidation-warningBackground);
+      color: var(--vscode-foreground);
+    }
+    
+    ${categoryStyles}
+    
     .empty-state {
       text-align: center;
       padding: 40px 20px;
@@ -234,7 +282,7 @@ export class BlocksView implements vscode.WebviewViewProvider {
   /**
    * Format key with symbols
    */
-  private formatKey(key: string, platform: 'darwin' | 'win32' | 'linux'): string {
+  private formatKey(key: string, platform: TargetPlatform): string {
     const chords = KeybindingParser.parseKeySequence(key);
     const formatted = chords.map(chord => 
       KeybindingParser.normalizeChordForDisplay(chord, platform)
@@ -242,6 +290,13 @@ export class BlocksView implements vscode.WebviewViewProvider {
     return formatted.join(' → ');
   }
   
+  /**
+   * Convert a theme color id (e.g., "charts.red") to its CSS variable
+   */
+  private themeColorVar(colorId: string): string {
+    return `var(--vscode-${colorId.replace(/[^a-zA-Z0-9.-]/g, '').replace(/\./g, '-')})`;
+  }
+  
   /**
    * Escape HTML
    */
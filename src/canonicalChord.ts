@@ -0,0 +1,166 @@
+/**
+ * Canonical Chord Module
+ * 
+ * Cross-platform chord model used for structural comparisons.
+ * Handles:
+ * - Modifier aliases (cmd/meta/win → meta, option/alt → alt)
+ * - Fixed modifier order so equivalent chords compare equal
+ * - Platform-specific modifier names for display and keybindings.json
+ * - Resolving the target platform setting
+ */
+
+import * as os from 'os';
+
+/** Platforms ChordMap can analyse a keymap for */
+export type TargetPlatform = 'darwin' | 'win32' | 'linux';
+
+/** A chord reduced to modifier flags and a lowercase key */
+export interface CanonicalChord {
+  ctrl: boolean;
+  shift: boolean;
+  alt: boolean;
+  meta: boolean;
+  key: string;
+}
+
+type Modifier = 'ctrl' | 'shift' | 'alt' | 'meta';
+
+/**
+ * Modifier tokens and the modifier they mean.
+ * VS Code reads `cmd`, `win` and `meta` as the same key on every platform
+ * (⌘ on macOS, the Windows key on Windows, Super on Linux).
+ * `opt` is what the live tracker records for ⌥.
+ */
+const MODIFIER_ALIASES: Record<string, Modifier> = {
+  ctrl: 'ctrl',
+  shift: 'shift',
+  alt: 'alt',
+  option: 'alt',
+  opt: 'alt',
+  cmd: 'meta',
+  meta: 'meta',
+  win: 'meta'
+};
+
+/** Canonical modifier order */
+const MODIFIER_ORDER: Modifier[] = ['ctrl', 'shift', 'alt', 'meta'];
+
+/** Modifier names as written in keybindings.json on each platform */
+const KEYBINDING_NAMES: Record<TargetPlatform, Record<Modifier, string>> = {
+  darwin: { ctrl: 'ctrl', shift: 'shift', alt: 'alt', meta: 'cmd' },
+  win32: { ctrl: 'ctrl', shift: 'shift', alt: 'alt', meta: 'win' },
+  linux: { ctrl: 'ctrl', shift: 'shift', alt: 'alt', meta: 'meta' }
+};
+
+/** Modifier labels shown in the UI on each platform */
+const DISPLAY_NAMES: Record<TargetPlatform, Record<Modifier, string>> = {
+  darwin: { ctrl: '⌃', shift: '⇧', alt: '⌥', meta: '⌘' },
+  win32: { ctrl: 'Ctrl', shift: 'Shift', alt: 'Alt', meta: 'Win' },
+  linux: { ctrl: 'Ctrl', shift: 'Shift', alt: 'Alt', meta: 'Super' }
+};
+
+/** macOS lists modifiers as ⌃⌥⇧⌘ */
+const DARWIN_DISPLAY_ORDER: Modifier[] = ['ctrl', 'alt', 'shift', 'meta'];
+
+export class CanonicalChords {
+  
+  /**
+   * Resolve the target platform setting ('auto' uses the running OS)
+   */
+  static resolvePlatform(setting?: string): TargetPlatform {
+    const platform = !setting || setting === 'auto' ? os.platform() : setting;
+    return platform === 'darwin' || platform === 'win32' ? platform : 'linux';
+  }
+  
+  /**
+   * Check whether a token is a modifier (including aliases)
+   */
+  static isModifier(token: string): boolean {
+    return token.toLowerCase() in MODIFIER_ALIASES;
+  }
+  
+  /**
+   * Parse a single chord into its canonical form
+   * Example: "Option+Cmd+K" -> { alt: true, meta: true, key: "k", ... }
+   */
+  static parse(chord: string): CanonicalChord {
+    const canonical: CanonicalChord = { ctrl: false, shift: false, alt: false, meta: false, key: '' };
+    const parts = chord.toLowerCase().split('+');
+    
+    for (let i = 0; i < parts.length; i++) {
+      const modifier = MODIFIER_ALIASES[parts[i]];
+      
+      if (modifier && i < parts.length - 1) {
+        canonical[modifier] = true;
+      } else {
+        // Last part or non-modifier is the key
+        canonical.key = parts[i];
+      }
+    }
+    
+    return canonical;
+  }
+  
+  /**
+   * Parse a key sequence into canonical chords
+   */
+  static parseSequence(keySequence: string): CanonicalChord[] {
+    return keySequence.trim().split(/\s+/).filter(Boolean).map(chord => this.parse(chord));
+  }
+  
+  /**
+   * Platform-independent identity of a chord
+   * Example: "cmd+option+k", "meta+alt+k" and "win+alt+k" -> "alt+meta+k"
+   */
+  static toKey(chord: CanonicalChord | string): string {
+    const canonical = typeof chord === 'string' ? this.parse(chord) : chord;
+    const modifiers = MODIFIER_ORDER.filter(m => canonical[m]);
+    return [...modifiers, canonical.key].join('+');
+  }
+  
+  /**
+   * Platform-independent identity of a key sequence
+   */
+  static toSequenceKey(keySequence: string): string {
+    return this.parseSequence(keySequence).map(chord => this.toKey(chord)).join(' ');
+  }
+  
+  /**
+   * Check whether a key sequence starts with (or equals) a prefix sequence
+   */
+  static startsWith(keySequence: string, prefix: string): boolean {
+    const sequence = this.parseSequence(keySequence).map(chord => this.toKey(chord));
+    const prefixChords = this.parseSequence(prefix).map(chord => this.toKey(chord));
+    
+    return prefixChords.length <= sequence.length &&
+      prefixChords.every((chord, i) => chord === sequence[i]);
+  }
+  
+  /**
+   * Write a chord the way keybindings.json spells it on a platform
+   * Example: meta+k on win32 -> "win+k"
+   */
+  static toKeybindingString(chord: CanonicalChord | string, platform: TargetPlatform): string {
+    const canonical = typeof chord === 'string' ? this.parse(chord) : chord;
+    const names = KEYBINDING_NAMES[platform];
+    const modifiers = MODIFIER_ORDER.filter(m => canonical[m]).map(m => names[m]);
+    return [...modifiers, canonical.key].join('+');
+  }
+  
+  /**
+   * Format a chord for display on a platform
+   * macOS: ⌃⌥⇧⌘K, Windows/Linux: Ctrl+Shift+Alt+K
+   */
+  static format(chord: CanonicalChord | string, platform: TargetPlatform): string {
+    const canonical = typeof chord === 'string' ? this.parse(chord) : chord;
+    const names = DISPLAY_NAMES[platform];
+    
+    if (platform === 'darwin') {
+      const modifiers = DARWIN_DISPLAY_ORDER.filter(m => canonical[m]).map(m => names[m]);
+      return [...modifiers, canonical.key.toUpperCase()].join('');
+    }
+    
+    const modifiers = MODIFIER_ORDER.filter(m => canonical[m]).map(m => names[m]);
+    return [...modifiers, canonical.key.toUpperCase()].join('+');
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Category Rules Module
+ * 
+ * Applies user-defined category rules (chordMap.categoryRules) to bindings.
+ * Rules are ordered; the first rule whose matchers all match assigns the category.
+ * Matchers:
+ * - command: glob ("gitlens.*") or /regex/flags
+ * - when: substring of the when clause
+ * - key: key sequence prefix (chord boundaries, normalized)
+ */
+
+import { CategoryRule, ParsedKeybinding } from './types';
+import { PrefixGraphBuilder } from './prefixGraph';
+
+export class CategoryRuleEngine {
+  
+  /**
+   * Assign categories from the first matching rule
+   * Bindings matched by no rule keep their derived category
+   */
+  static apply(bindings: ParsedKeybinding[], rules: CategoryRule[]): void {
+    const validRules = rules.filter(rule => this.isValidRule(rule));
+    
+    if (validRules.length === 0) {
+      return;
+    }
+    
+    for (const binding of bindings) {
+      const rule = validRules.find(r => this.matches(r, binding));
+      if (rule) {
+        binding.category = rule.category;
+      }
+    }
+  }
+  
+  /**
+   * Count how many bindings each rule captures (first-match semantics)
+   * Returns one count per rule, in rule order
+   */
+  static countMatches(bindings: ParsedKeybinding[], rules: CategoryRule[]): number[] {
+    const counts = rules.map(() => 0);
+    
+    for (const binding of bindings) {
+      const index = rules.findIndex(rule => this.isValidRule(rule) && this.matches(rule, binding));
+      if (index !== -1) {
+        counts[index]++;
+      }
+    }
+    
+    return counts;
+  }
+  
+  /**
+   * Check whether a rule matches a binding
+   */
+  static matches(rule: CategoryRule, binding: ParsedKeybinding): boolean {
+    if (rule.command && !this.matchesPattern(rule.command, binding.command)) {
+      return false;
+    }
+    
+    if (rule.when && !(binding.when || '').includes(rule.when)) {
+      return false;
+    }
+    
+    if (rule.key && binding.key) {
+      const prefix = PrefixGraphBuilder.normalizeKeySequence(rule.key);
+      const sequence = PrefixGraphBuilder.normalizeKeySequence(binding.key);
+      
+      if (sequence !== prefix && !sequence.startsWith(prefix + ' ')) {
+        return false;
+      }
+    } else if (rule.key) {
+      return false;
+    }
+    
+    return true;
+  }
+  
+  /**
+   * Get the icon/color for a category (from the first rule defining them)
+   */
+  static getStyle(category: string, rules: CategoryRule[]): { icon?: string; color?: string } {
+    const icon = rules.find(r => r.category === category && r.icon)?.icon;
+    const color = rules.find(r => r.category === category && r.color)?.color;
+    return { icon, color };
+  }
+  
+  /**
+   * A rule needs a category and at least one matcher
+   */
+  private static isValidRule(rule: CategoryRule): boolean {
+    return !!rule && typeof rule.category === 'string' && rule.category.trim() !== '' &&
+      !!(rule.command || rule.when || rule.key);
+  }
+  
+  /**
+   * Match a command id against a glob or /regex/flags pattern
+   */
+  private static matchesPattern(pattern: string, command: string): boolean {
+    const regexMatch = /^\/(.+)\/([a-z]*)$/i.exec(pattern);
+    
+    try {
+      if (regexMatch) {
+        return new RegExp(regexMatch[1], regexMatch[2]).test(command);
+      }
+      
+      const escaped = pattern
+        .split('*')
+        .map(part => part.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\?/g, '.'))
+        .join('.*');
+      return new RegExp(`^${escaped}$`).test(command);
+    } catch {
+      return false;
+    }
+  }
+}
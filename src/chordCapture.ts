@@ -0,0 +1,41 @@
+/**
+ * Chord Capture Module
+ * 
+ * Webview-side keydown handling shared by views that capture chords
+ * (Live Tracker, Chord Recorder). The returned script defines:
+ * - readChord(event): { mods, key } for a keydown, or undefined for a lone modifier
+ * - isMac: whether the webview runs on macOS
+ */
+
+/**
+ * Script defining readChord() for embedding in a webview's <script> block
+ */
+export function getChordCaptureScript(): string {
+  return `
+    const isMac = navigator.userAgent.includes('Mac');
+    
+    const keyMap = {
+      keya:'a',keyb:'b',keyc:'c',keyd:'d',keye:'e',keyf:'f',keyg:'g',keyh:'h',keyi:'i',keyj:'j',keyk:'k',keyl:'l',keym:'m',keyn:'n',keyo:'o',keyp:'p',keyq:'q',keyr:'r',keys:'s',keyt:'t',keyu:'u',keyv:'v',keyw:'w',keyx:'x',keyy:'y',keyz:'z',
+      digit0:'0',digit1:'1',digit2:'2',digit3:'3',digit4:'4',digit5:'5',digit6:'6',digit7:'7',digit8:'8',digit9:'9',
+      space:'space',minus:'-',equal:'=',bracketleft:'[',bracketright:']',backslash:'\\\\',semicolon:';',quote:"'",comma:',',period:'.',slash:'/',backquote:'\`',
+      arrowup:'up',arrowdown:'down',arrowleft:'left',arrowright:'right',
+      escape:'escape',enter:'enter',tab:'tab',backspace:'backspace',delete:'delete',
+      home:'home',end:'end',pageup:'pageup',pagedown:'pagedown',
+      f1:'f1',f2:'f2',f3:'f3',f4:'f4',f5:'f5',f6:'f6',f7:'f7',f8:'f8',f9:'f9',f10:'f10',f11:'f11',f12:'f12'
+    };
+    
+    function readChord(e) {
+      const mods = [];
+      if (e.metaKey) mods.push('cmd');
+      if (e.ctrlKey) mods.push('ctrl');
+      if (e.altKey) mods.push(isMac ? 'opt' : 'alt');
+      if (e.shiftKey) mods.push('shift');
+      
+      const key = keyMap[e.code.toLowerCase()] || e.key.toLowerCase();
+      
+      if (['control','meta','alt','shift'].some(m => key.includes(m))) return undefined;
+      
+      return { mods, key };
+    }
+  `;
+}
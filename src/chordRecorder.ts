@@ -0,0 +1,423 @@
+/**
+ * Chord Recorder Module
+ * 
+ * Creates keybindings by pressing them:
+ * - Captures a one- or multi-chord sequence in a webview panel
+ * - Shows live whether the sequence is free, a prefix of existing chords, or conflicting
+ * - Asks for the command and an optional when clause, then writes the entry
+ */
+
+import * as vscode from 'vscode';
+import { ParsedKeybinding, PrefixNode, WhenClauseNode } from './types';
+import { PrefixGraphBuilder } from './prefixGraph';
+import { CanonicalChords } from './canonicalChord';
+import { WhenClauseAnalyzer, WhenClauseParser } from './whenClause';
+import { SettingsManager } from './settingsManager';
+import { KeybindingActions } from './keybindingActions';
+import { getChordCaptureScript } from './chordCapture';
+
+/** How a recorded sequence relates to the existing keymap */
+type RecordingStatus = 'empty' | 'free' | 'prefix' | 'conflict';
+
+/** Result of checking a recorded sequence */
+interface RecordingAnalysis {
+  status: RecordingStatus;
+  message: string;
+  
+  /** Bindings involved ("key → command") */
+  details: string[];
+}
+
+/** Maximum number of related bindings listed in the panel */
+const MAX_DETAILS = 10;
+
+export class ChordRecorder {
+  private panel: vscode.WebviewPanel | undefined;
+  private sequence: string[] = [];
+  private prefixTree: Map<string, PrefixNode> = new Map();
+  private bindings: ParsedKeybinding[] = [];
+  
+  constructor(
+    private getBindings: () => Promise<ParsedKeybinding[]>,
+    private settingsManager: SettingsManager,
+    private keybindingActions: KeybindingActions
+  ) {}
+  
+  /**
+   * Show or focus the recorder panel
+   */
+  async show(): Promise<void> {
+    await this.loadBindings();
+    
+    if (this.panel) {
+      this.panel.reveal();
+      return;
+    }
+    
+    this.panel = vscode.window.createWebviewPanel(
+      'chordmapRecorder',
+      'ChordMap: Record Keybinding',
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true
+      }
+    );
+    
+    this.panel.webview.onDidReceiveMessage(async (message) => {
+      await this.handleMessage(message);
+    });
+    
+    this.panel.onDidDispose(() => {
+      this.panel = undefined;
+      this.sequence = [];
+    });
+    
+    this.panel.webview.html = this.getWebviewContent(getNonce());
+  }
+  
+  /**
+   * Handle message from webview
+   */
+  private async handleMessage(message: any): Promise<void> {
+    if (message.type === 'sequence') {
+      this.sequence = Array.isArray(message.chords) ? message.chords : [];
+      this.postStatus();
+    } else if (message.type === 'create') {
+      await this.createBinding();
+    }
+  }
+  
+  /**
+   * Send the live status of the recorded sequence to the panel
+   */
+  private postStatus(): void {
+    const platform = this.settingsManager.getTargetPlatform();
+    
+    this.panel?.webview.postMessage({
+      type: 'status',
+      keys: this.sequence.map(chord => CanonicalChords.format(chord, platform)).join(' '),
+      ...this.analyze(undefined)
+    });
+  }
+  
+  /**
+   * Ask for the command and when clause, then write the entry
+   */
+  private async createBinding(): Promise<void> {
+    if (this.sequence.length === 0) {
+      return;
+    }
+    
+    const platform = this.settingsManager.getTargetPlatform();
+    const key = this.sequence.map(chord => CanonicalChords.toKeybindingString(chord, platform)).join(' ');
+    
+    const command = await this.pickCommand(key);
+    if (!command) {
+      return;
+    }
+    
+    const when = await vscode.window.showInputBox({
+      title: `When clause for ${key} → ${command}`,
+      prompt: 'Optional; leave empty to make the binding active everywhere',
+      validateInput: value => {
+        if (!value.trim()) {
+          return undefined;
+        }
+        try {
+          WhenClauseParser.parse(value);
+          return undefined;
+        } catch (error) {
+          return { message: `${error}`, severity: vscode.InputBoxValidationSeverity.Warning };
+        }
+      }
+    });
+    
+    if (when === undefined) {
+      return;
+    }
+    
+    // Re-check now that the context is known
+    const analysis = this.analyze(when.trim() || undefined);
+    
+    if (analysis.status === 'conflict' || analysis.status === 'prefix') {
+      const confirm = await vscode.window.showWarningMessage(
+        `${analysis.message}. Add ${key} → ${command} anyway?`,
+        { modal: true, detail: analysis.details.join('\n') },
+        'Add Anyway'
+      );
+      
+      if (confirm !== 'Add Anyway') {
+        return;
+      }
+    }
+    
+    await this.keybindingActions.add({ key, command, ...(when.trim() ? { when: when.trim() } : {}) });
+    await this.loadBindings();
+    
+    this.sequence = [];
+    this.panel?.webview.postMessage({ type: 'reset' });
+  }
+  
+  /**
+   * Quick pick over all registered commands, titled where a binding knows the title
+   */
+  private async pickCommand(key: string): Promise<string | undefined> {
+    const labels = new Map<string, string>();
+    for (const binding of this.bindings) {
+      if (binding.commandLabel && !labels.has(binding.command)) {
+        labels.set(binding.command, binding.commandLabel);
+      }
+    }
+    
+    const commands = await vscode.commands.getCommands(true);
+    const picked = await vscode.window.showQuickPick(
+      commands.sort().map(command => ({
+        label: labels.get(command) || command,
+        description: labels.has(command) ? command : undefined,
+        command
+      })),
+      {
+        title: `Command for ${key}`,
+        placeHolder: 'Search commands by title or ID',
+        matchOnDescription: true
+      }
+    );
+    
+    return picked?.command;
+  }
+  
+  /**
+   * Check the recorded sequence against the prefix tree
+   * - conflict: the exact sequence is bound, or a shorter binding fires first
+   * - prefix: longer chords start with the sequence and would be shadowed
+   * Only bindings whose when clause can overlap with the given one count
+   */
+  private analyze(when: string | undefined): RecordingAnalysis {
+    if (this.sequence.length === 0) {
+      return { status: 'empty', message: 'Press a key combination', details: [] };
+    }
+    
+    const whenAst: WhenClauseNode | undefined = WhenClauseParser.tryParse(when);
+    const overlapping = (bindings: ParsedKeybinding[]) =>
+      bindings.filter(b => WhenClauseAnalyzer.mayOverlap(whenAst, b.whenAst));
+    const describe = (bindings: ParsedKeybinding[]) => bindings
+      .slice(0, MAX_DETAILS)
+      .map(b => `${b.key} → ${b.commandLabel || b.command}${b.when ? ` (when ${b.when})` : ''}`);
+    
+    const node = PrefixGraphBuilder.findNode(this.prefixTree, this.sequence.join(' '));
+    const exact = overlapping(node ? node.bindings : []);
+    
+    const shorter: ParsedKeybinding[] = [];
+    for (let i = 1; i < this.sequence.length; i++) {
+      const prefix = PrefixGraphBuilder.findNode(this.prefixTree, this.sequence.slice(0, i).join(' '));
+      shorter.push(...overlapping(prefix ? prefix.bindings : []));
+    }
+    
+    if (exact.length > 0 || shorter.length > 0) {
+      const count = exact.length + shorter.length;
+      return {
+        status: 'conflict',
+        message: exact.length > 0
+          ? `Already bound (${count} conflicting binding${count !== 1 ? 's' : ''})`
+          : `Unreachable: a shorter chord fires first (${count} binding${count !== 1 ? 's' : ''})`,
+        details: describe([...exact, ...shorter])
+      };
+    }
+    
+    const longer = overlapping(node ? PrefixGraphBuilder.flattenTree(node.children) : []);
+    
+    if (longer.length > 0) {
+      return {
+        status: 'prefix',
+        message: `Prefix of ${longer.length} existing chord${longer.length !== 1 ? 's' : ''}`,
+        details: describe(longer)
+      };
+    }
+    
+    return { status: 'free', message: 'Free', details: [] };
+  }
+  
+  /**
+   * Rebuild the prefix tree from the active (non-disabled) bindings
+   */
+  private async loadBindings(): Promise<void> {
+    this.bindings = (await this.getBindings()).filter(b => !b.disabled);
+    this.prefixTree = PrefixGraphBuilder.buildPrefixTree(this.bindings);
+  }
+  
+  /**
+   * Generate HTML for the recorder
+   */
+  private getWebviewContent(nonce: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Record Keybinding</title>
+  <style nonce="${nonce}">
+    body {
+      font-family: var(--vscode-font-family);
+      color: var(--vscode-foreground);
+      padding: 24px;
+      max-width: 560px;
+      margin: 0 auto;
+    }
+    
+    #capture {
+      border: 2px dashed var(--vscode-input-border, #555);
+      border-radius: 6px;
+      padding: 24px;
+      text-align: center;
+      background: var(--vscode-input-background);
+      cursor: text;
+    }
+    
+    #capture:focus {
+      outline: none;
+      border-color: var(--vscode-focusBorder);
+    }
+    
+    .hint {
+      font-size: 13px;
+      color: var(--vscode-descriptionForeground);
+    }
+    
+    #keys {
+      font-family: var(--vscode-editor-font-family);
+      font-size: 22px;
+      font-weight: 600;
+      min-height: 30px;
+      margin-top: 10px;
+    }
+    
+    #status {
+      margin-top: 16px;
+      font-weight: 600;
+    }
+    
+    #status.free { color: var(--vscode-testing-iconPassed); }
+    #status.prefix { color: var(--vscode-editorWarning-foreground); }
+    #status.conflict { color: var(--vscode-errorForeground); }
+    
+    #details {
+      margin: 8px 0 0;
+      padding-left: 20px;
+      font-size: 12px;
+      color: var(--vscode-descriptionForeground);
+    }
+    
+    .controls {
+      margin-top: 16px;
+      display: flex;
+      gap: 8px;
+    }
+    
+    button {
+      padding: 6px 14px;
+      background: var(--vscode-button-background);
+      color: var(--vscode-button-foreground);
+      border: none;
+      cursor: pointer;
+    }
+    
+    button.secondary {
+      background: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+    }
+    
+    button:disabled {
+      opacity: 0.5;
+      cursor: default;
+    }
+  </style>
+</head>
+<body>
+  <div id="capture" tabindex="0">
+    <div class="hint">Focus here and press a key combination. Press more to record a multi-chord sequence.</div>
+    <div id="keys"></div>
+  </div>
+  <div id="status" class="empty">Press a key combination</div>
+  <ul id="details"></ul>
+  <div class="controls">
+    <button id="create" disabled>Create Keybinding...</button>
+    <button id="clear" class="secondary">Clear</button>
+  </div>
+  
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const capture = document.getElementById('capture');
+    const keys = document.getElementById('keys');
+    const status = document.getElementById('status');
+    const details = document.getElementById('details');
+    const create = document.getElementById('create');
+    ${getChordCaptureScript()}
+    let chords = [];
+    
+    capture.focus();
+    capture.onclick = () => capture.focus();
+    
+    capture.onkeydown = (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      
+      const captured = readChord(e);
+      if (!captured) return;
+      
+      chords.push([...captured.mods, captured.key].join('+'));
+      vscode.postMessage({ type: 'sequence', chords });
+    };
+    
+    function clear() {
+      chords = [];
+      vscode.postMessage({ type: 'sequence', chords });
+      capture.focus();
+    }
+    
+    document.getElementById('clear').addEventListener('click', clear);
+    create.addEventListener('click', () => vscode.postMessage({ type: 'create' }));
+    
+    window.addEventListener('message', (e) => {
+      const message = e.data;
+      
+      if (message.type === 'reset') {
+        clear();
+      } else if (message.type === 'status') {
+        keys.textContent = message.keys;
+        status.className = message.status;
+        status.textContent = message.message;
+        details.replaceChildren(...message.details.map(text => {
+          const item = document.createElement('li');
+          item.textContent = text;
+          return item;
+        }));
+        create.disabled = message.status === 'empty';
+      }
+    });
+  </script>
+</body>
+</html>`;
+  }
+  
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    if (this.panel) {
+      this.panel.dispose();
+    }
+  }
+}
+
+/**
+ * Generate a nonce for CSP
+ */
+function getNonce(): string {
+  const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let nonce = '';
+  for (let i = 0; i < 16; i++) {
+    nonce += possible.charAt(Math.floor(Math.random() * possible.length));
+  }
+  return nonce;
+}
@@ -0,0 +1,102 @@
+/**
+ * Command Chain Module
+ * 
+ * Expands bindings whose real behavior lives in their args:
+ * - `runCommands` (args.commands)
+ * - Sequence macros such as multi-command (args.sequence)
+ * - Single-command wrappers (args.command / args.args)
+ * Nested chains are expanded up to a fixed depth.
+ */
+
+import { ChainedCommand } from './types';
+
+/** Commands that run a list of commands from their args */
+const SEQUENCE_COMMANDS: Record<string, 'commands' | 'sequence'> = {
+  'runCommands': 'commands',
+  'extension.multiCommand.execute': 'sequence'
+};
+
+/** Commands that run a single command named in their args */
+const WRAPPER_COMMANDS = new Set([
+  'workbench.action.executeCommand',
+  'commands.executeCommand'
+]);
+
+/** Guard against self-referencing macros */
+const MAX_DEPTH = 5;
+
+export class CommandChainExpander {
+  
+  /**
+   * Expand a command's args into the commands it runs
+   * Returns undefined when the command is not a chain
+   */
+  static expand(command: string, args: unknown, depth: number = 0): ChainedCommand[] | undefined {
+    if (depth >= MAX_DEPTH || !args || typeof args !== 'object') {
+      return undefined;
+    }
+    
+    const record = args as Record<string, unknown>;
+    let steps: unknown[] | undefined;
+    
+    if (command in SEQUENCE_COMMANDS) {
+      const list = record[SEQUENCE_COMMANDS[command]];
+      steps = Array.isArray(list) ? list : undefined;
+    } else if (WRAPPER_COMMANDS.has(command) && typeof record.command === 'string') {
+      steps = [{ command: record.command, args: record.args }];
+    }
+    
+    if (!steps) {
+      return undefined;
+    }
+    
+    const chain: ChainedCommand[] = [];
+    
+    for (const step of steps) {
+      const resolved = this.resolveStep(step);
+      
+      if (!resolved) {
+        continue;
+      }
+      
+      const nested = this.expand(resolved.command, resolved.args, depth + 1);
+      if (nested) {
+        resolved.chain = nested;
+      }
+      
+      chain.push(resolved);
+    }
+    
+    return chain.length > 0 ? chain : undefined;
+  }
+  
+  /**
+   * Flatten a chain into every command it runs (depth-first)
+   */
+  static flatten(chain: ChainedCommand[] | undefined): ChainedCommand[] {
+    const steps: ChainedCommand[] = [];
+    
+    for (const step of chain || []) {
+      steps.push(step);
+      steps.push(...this.flatten(step.chain));
+    }
+    
+    return steps;
+  }
+  
+  /**
+   * Normalize one step: "cmd" or { command, args }
+   */
+  private static resolveStep(step: unknown): ChainedCommand | undefined {
+    if (typeof step === 'string') {
+      return step ? { command: step } : undefined;
+    }
+    
+    if (step && typeof step === 'object' && typeof (step as any).command === 'string') {
+      const { command, args } = step as { command: string; args?: unknown };
+      return args === undefined ? { command } : { command, args };
+    }
+    
+    return undefined;
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Command Metadata Module
+ * 
+ * Resolves human-readable titles and categories for command IDs:
+ * - Bundled table of built-in workbench/editor commands
+ * - contributes.commands of every installed extension
+ * - %placeholder% titles resolved from package.nls.json
+ * Also derives metadata-based categories for the "metadata" derivation method.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CommandMetadata, ParsedKeybinding } from './types';
+import { KeybindingParser } from './parser';
+import { CommandChainExpander } from './commandChain';
+
+export class CommandMetadataResolver {
+  private static readonly BUILTIN_TABLE = path.join('resources', 'builtinCommands.json');
+  
+  private metadata = new Map<string, CommandMetadata>();
+  
+  constructor(private extensionPath: string) {}
+  
+  /**
+   * (Re)load metadata from the bundled table and installed extensions
+   */
+  async load(): Promise<void> {
+    this.metadata = new Map();
+    
+    await this.loadBuiltinTable();
+    
+    for (const extension of vscode.extensions.all) {
+      await this.loadExtension(extension);
+    }
+  }
+  
+  /**
+   * Get metadata for a command
+   */
+  getMetadata(command: string): CommandMetadata | undefined {
+    return this.metadata.get(command);
+  }
+  
+  /**
+   * Get display label for a command ("Category: Title", like the command palette)
+   */
+  getLabel(command: string): string | undefined {
+    const metadata = this.metadata.get(command);
+    
+    if (!metadata) {
+      return undefined;
+    }
+    
+    return metadata.category ? `${metadata.category}: ${metadata.title}` : metadata.title;
+  }
+  
+  /**
+   * Derive a category from command metadata
+   * Falls back to: contributing extension name -> keybinding's extension -> namespace map
+   */
+  getCategory(binding: ParsedKeybinding): string {
+    const metadata = this.metadata.get(binding.command);
+    
+    if (metadata?.category) {
+      return metadata.category;
+    }
+    
+    if (metadata?.extensionName) {
+      return metadata.extensionName;
+    }
+    
+    if (binding.origin === 'extension') {
+      const extension = vscode.extensions.getExtension(binding.sourceEditor);
+      const displayName = extension?.packageJSON?.displayName;
+      
+      if (typeof displayName === 'string' && !this.isPlaceholder(displayName)) {
+        return displayName;
+      }
+    }
+    
+    return KeybindingParser.deriveCategory(binding.command);
+  }
+  
+  /**
+   * Populate commandLabel on each binding (and category/label on chain steps)
+   */
+  applyLabels(bindings: ParsedKeybinding[]): void {
+    for (const binding of bindings) {
+      binding.commandLabel = this.getLabel(binding.command);
+      
+      for (const step of CommandChainExpander.flatten(binding.chain)) {
+        const metadata = this.metadata.get(step.command);
+        step.commandLabel = this.getLabel(step.command);
+        step.category = metadata?.category || metadata?.extensionName || KeybindingParser.deriveCategory(step.command);
+      }
+    }
+  }
+  
+  /**
+   * Load the bundled table of built-in commands
+   */
+  private async loadBuiltinTable(): Promise<void> {
+    const tablePath = path.join(this.extensionPath, CommandMetadataResolver.BUILTIN_TABLE);
+    
+    try {
+      const table: Record<string, CommandMetadata> = JSON.parse(await fs.readFile(tablePath, 'utf-8'));
+      
+      for (const [command, metadata] of Object.entries(table)) {
+        this.metadata.set(command, metadata);
+      }
+    } catch (error) {
+      console.error(`Failed to load built-in command table from ${tablePath}:`, error);
+    }
+  }
+  
+  /**
+   * Load contributes.commands from one extension
+   */
+  private async loadExtension(extension: vscode.Extension<any>): Promise<void> {
+    const packageJSON = extension.packageJSON;
+    const commands = packageJSON?.contributes?.commands;
+    
+    if (!commands) {
+      return;
+    }
+    
+    const entries: any[] = Array.isArray(commands) ? commands : [commands];
+    const nls = await this.loadNls(extension.extensionPath, entries, packageJSON);
+    const extensionName = this.localize(packageJSON.displayName, nls) || packageJSON.name;
+    
+    for (const entry of entries) {
+      if (!entry || typeof entry.command !== 'string') {
+        continue;
+      }
+      
+      const title = this.localize(entry.title, nls);
+      
+      if (!title) {
+        continue;
+      }
+      
+      this.metadata.set(entry.command, {
+        title,
+        category: this.localize(entry.category, nls),
+        extensionId: extension.id,
+        extensionName
+      });
+    }
+  }
+  
+  /**
+   * Load package.nls.json (preferring the current display language)
+   * Skipped when nothing in the manifest uses %placeholders%
+   */
+  private async loadNls(
+    extensionPath: string,
+    entries: any[],
+    packageJSON: any
+  ): Promise<Record<string, string>> {
+    const usesPlaceholders = [packageJSON.displayName, ...entries.flatMap(e => [e?.title, e?.category])]
+      .some(value => this.isPlaceholder(value));
+    
+    if (!usesPlaceholders) {
+      return {};
+    }
+    
+    const candidates = [
+      `package.nls.${vscode.env.language}.json`,
+      'package.nls.json'
+    ];
+    
+    for (const candidate of candidates) {
+      try {
+        const content = await fs.readFile(path.join(extensionPath, candidate), 'utf-8');
+        const raw: Record<string, string | { message: string }> = JSON.parse(content);
+        const nls: Record<string, string> = {};
+        
+        for (const [key, value] of Object.entries(raw)) {
+          nls[key] = typeof value === 'string' ? value : value?.message;
+        }
+        
+        return nls;
+      } catch {
+        // Try next candidate
+      }
+    }
+    
+    return {};
+  }
+  
+  /**
+   * Resolve a manifest string, which may be a %placeholder% or a { value, original } object
+   */
+  private localize(value: unknown, nls: Record<string, string>): string | undefined {
+    if (value && typeof value === 'object' && typeof (value as any).value === 'string') {
+      value = (value as any).value;
+    }
+    
+    if (typeof value !== 'string') {
+      return undefined;
+    }
+    
+    if (this.isPlaceholder(value)) {
+      return nls[value.slice(1, -1)];
+    }
+    
+    return value;
+  }
+  
+  private isPlaceholder(value: unknown): value is string {
+    return typeof value === 'string' && value.length > 2 && value.startsWith('%') && value.endsWith('%');
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Conflict Detector Module
+ * 
+ * Finds keybindings that shadow each other:
+ * - Same normalized key sequence bound to different commands (or the same command with different args)
+ * - A chord that is also the prefix of a longer chord sequence
+ * Only bindings whose when clauses can be true at the same time conflict.
+ */
+
+import { ConflictGroup, ParsedKeybinding } from './types';
+import { PrefixGraphBuilder } from './prefixGraph';
+import { WhenClauseAnalyzer } from './whenClause';
+import { KeybindingParser } from './parser';
+
+export class ConflictDetector {
+  
+  /**
+   * Detect conflicts and populate conflictsWith on each binding
+   * Returns the conflicting bindings grouped by shared key sequence
+   */
+  static detectConflicts(bindings: ParsedKeybinding[]): ConflictGroup[] {
+    for (const binding of bindings) {
+      binding.conflictsWith = [];
+    }
+    
+    const pairs = this.findConflictingPairs(bindings);
+    
+    for (const [a, b] of pairs) {
+      a.conflictsWith!.push(this.describeRival(b));
+      b.conflictsWith!.push(this.describeRival(a));
+    }
+    
+    return this.groupPairs(pairs);
+  }
+  
+  /**
+   * Group bindings that already carry conflictsWith data
+   * (e.g. a filtered subset of previously analysed bindings)
+   */
+  static getConflictGroups(bindings: ParsedKeybinding[]): ConflictGroup[] {
+    const candidates = bindings.filter(b => b.conflictsWith && b.conflictsWith.length > 0);
+    return this.groupPairs(this.findConflictingPairs(candidates));
+  }
+  
+  /**
+   * Check whether two bindings conflict
+   */
+  static conflicts(a: ParsedKeybinding, b: ParsedKeybinding): boolean {
+    if (a.disabled || b.disabled || !a.key || !b.key) {
+      return false;
+    }
+    
+    const seqA = PrefixGraphBuilder.normalizeKeySequence(a.key);
+    const seqB = PrefixGraphBuilder.normalizeKeySequence(b.key);
+    
+    return this.sequencesCollide(seqA, seqB) && !this.isSameAction(a, b) && this.contextsOverlap(a, b);
+  }
+  
+  /**
+   * Conflicting pairs in the new keymap that were not in the old one
+   * Bindings are matched across keymaps by key, command, args and when clause
+   */
+  static findIntroducedConflicts(
+    before: ParsedKeybinding[],
+    after: ParsedKeybinding[]
+  ): [ParsedKeybinding, ParsedKeybinding][] {
+    const pairId = ([a, b]: [ParsedKeybinding, ParsedKeybinding]) =>
+      [KeybindingParser.getBindingId(a), KeybindingParser.getBindingId(b)].sort().join('\n');
+    const existing = new Set(this.findConflictingPairs(before).map(pairId));
+    
+    return this.findConflictingPairs(after).filter(pair => !existing.has(pairId(pair)));
+  }
+  
+  /**
+   * Find all conflicting pairs
+   * Bindings are bucketed by first chord since only those can collide
+   */
+  private static findConflictingPairs(bindings: ParsedKeybinding[]): [ParsedKeybinding, ParsedKeybinding][] {
+    const buckets = new Map<string, { binding: ParsedKeybinding; sequence: string }[]>();
+    
+    for (const binding of bindings) {
+      if (binding.disabled || !binding.key) {
+        continue;
+      }
+      
+      const sequence = PrefixGraphBuilder.normalizeKeySequence(binding.key);
+      const firstChord = sequence.split(' ')[0];
+      
+      if (!buckets.has(firstChord)) {
+        buckets.set(firstChord, []);
+      }
+      buckets.get(firstChord)!.push({ binding, sequence });
+    }
+    
+    const pairs: [ParsedKeybinding, ParsedKeybinding][] = [];
+    
+    for (const entries of buckets.values()) {
+      for (let i = 0; i < entries.length; i++) {
+        for (let j = i + 1; j < entries.length; j++) {
+          const a = entries[i];
+          const b = entries[j];
+          
+          if (
+            this.sequencesCollide(a.sequence, b.sequence) &&
+            !this.isSameAction(a.binding, b.binding) &&
+            this.contextsOverlap(a.binding, b.binding)
+          ) {
+            pairs.push([a.binding, b.binding]);
+          }
+        }
+      }
+    }
+    
+    return pairs;
+  }
+  
+  /**
+   * Equal sequences, or one is a chord prefix of the other (normalized sequences)
+   */
+  static sequencesCollide(a: string, b: string): boolean {
+    return a === b || a.startsWith(b + ' ') || b.startsWith(a + ' ');
+  }
+  
+  /**
+   * Whether two bindings run the same command with the same args
+   * Such bindings are duplicates rather than conflicts
+   */
+  private static isSameAction(a: ParsedKeybinding, b: ParsedKeybinding): boolean {
+    return KeybindingParser.getSignature(a) === KeybindingParser.getSignature(b);
+  }
+  
+  /**
+   * Whether both bindings can be active at once
+   * An unparseable when clause is treated as always active
+   */
+  private static contextsOverlap(a: ParsedKeybinding, b: ParsedKeybinding): boolean {
+    return WhenClauseAnalyzer.mayOverlap(a.whenAst, b.whenAst);
+  }
+  
+  /**
+   * Describe a rival binding for display
+   */
+  private static describeRival(rival: ParsedKeybinding): string {
+    const args = KeybindingParser.summarizeArgs(rival.args);
+    return args ? `${rival.key} → ${rival.command} (${args})` : `${rival.key} → ${rival.command}`;
+  }
+  
+  /**
+   * Merge conflicting pairs into connected groups
+   */
+  private static groupPairs(pairs: [ParsedKeybinding, ParsedKeybinding][]): ConflictGroup[] {
+    const parent = new Map<ParsedKeybinding, ParsedKeybinding>();
+    
+    const find = (binding: ParsedKeybinding): ParsedKeybinding => {
+      let root = binding;
+      while (parent.get(root) !== root) {
+        root = parent.get(root)!;
+      }
+      parent.set(binding, root);
+      return root;
+    };
+    
+    for (const [a, b] of pairs) {
+      if (!parent.has(a)) {
+        parent.set(a, a);
+      }
+      if (!parent.has(b)) {
+        parent.set(b, b);
+      }
+      parent.set(find(a), find(b));
+    }
+    
+    const groups = new Map<ParsedKeybinding, ParsedKeybinding[]>();
+    
+    for (const binding of parent.keys()) {
+      const root = find(binding);
+      if (!groups.has(root)) {
+        groups.set(root, []);
+      }
+      groups.get(root)!.push(binding);
+    }
+    
+    return Array.from(groups.values())
+      .map(members => {
+        const shortest = members.reduce((a, b) =>
+          getChordCount(a.key) <= getChordCount(b.key) ? a : b
+        );
+        return { key: shortest.key, bindings: members };
+      })
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+}
+
+/**
+ * Number of chords in a key sequence
+ */
+function getChordCount(key: string): number {
+  return key.trim().split(/\s+/).length;
+}
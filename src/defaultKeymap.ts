@@ -0,0 +1,140 @@
+/**
+ * Default Keymap Module
+ * 
+ * Loads the editor's default keybindings and merges them with the user's
+ * keybindings.json into the effective keymap.
+ * - The running editor's own defaults are read live (complete, and current for its version)
+ * - Other platforms fall back to the bundled per-platform snapshots, which may be partial
+ *   (marked by a "// Partial snapshot" header until regenerated)
+ * Follows VS Code's semantics:
+ * - User entries are appended after defaults (later entries take precedence)
+ * - A "-command" entry removes matching defaults (same command, and same key/when if given)
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ParsedKeybinding } from './types';
+import { KeybindingParser } from './parser';
+import { PrefixGraphBuilder } from './prefixGraph';
+
+export class DefaultKeymap {
+  private static readonly SNAPSHOT_DIR = path.join('resources', 'defaultKeybindings');
+  
+  /** First line of a snapshot that lists only part of the defaults */
+  private static readonly PARTIAL_MARKER = '// Partial snapshot';
+  
+  /** Document behind "Preferences: Open Default Keyboard Shortcuts (JSON)" */
+  private static readonly LIVE_DEFAULTS_URI = 'vscode://defaultsettings/keybindings.json';
+  
+  /**
+   * Load the default keybindings for a platform
+   * With `useLiveDefaults` (the running editor on its own platform) the editor's
+   * live defaults are read, falling back to the bundled snapshot
+   * `partial` is set when the defaults came from a partial snapshot
+   */
+  static async load(
+    extensionPath: string,
+    platform: NodeJS.Platform,
+    sourceEditor: string,
+    useLiveDefaults = false
+  ): Promise<{ bindings: ParsedKeybinding[]; partial: boolean }> {
+    if (useLiveDefaults) {
+      const live = await this.loadLive(sourceEditor);
+      if (live) {
+        return { bindings: live, partial: false };
+      }
+    }
+    
+    const snapshotName = platform === 'darwin' || platform === 'win32' ? platform : 'linux';
+    const snapshotPath = path.join(extensionPath, this.SNAPSHOT_DIR, `${snapshotName}.json`);
+    
+    try {
+      const content = await fs.readFile(snapshotPath, 'utf-8');
+      return {
+        bindings: KeybindingParser.parseKeybindingsFile(content, sourceEditor, 'default'),
+        partial: content.startsWith(this.PARTIAL_MARKER)
+      };
+    } catch (error) {
+      console.error(`Failed to load default keybindings from ${snapshotPath}:`, error);
+      return { bindings: [], partial: true };
+    }
+  }
+  
+  /**
+   * Read the running editor's default keybindings
+   * Returns undefined when the document can't be opened (e.g., an editor that doesn't provide it)
+   */
+  private static async loadLive(sourceEditor: string): Promise<ParsedKeybinding[] | undefined> {
+    try {
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(this.LIVE_DEFAULTS_URI));
+      const bindings = KeybindingParser.parseKeybindingsFile(document.getText(), sourceEditor, 'default');
+      return bindings.length > 0 ? bindings : undefined;
+    } catch (error) {
+      console.error('Failed to read the live default keybindings:', error);
+      return undefined;
+    }
+  }
+  
+  /**
+   * Drop defaults that are also contributed by an installed extension
+   * (the live defaults include extension contributions, which are collected separately)
+   */
+  static withoutContributed(defaults: ParsedKeybinding[], contributed: ParsedKeybinding[]): ParsedKeybinding[] {
+    const getId = (binding: ParsedKeybinding) =>
+      `${PrefixGraphBuilder.normalizeKeySequence(binding.key)}|${KeybindingParser.getSignature(binding)}|${PrefixGraphBuilder.normalizeWhen(binding)}`;
+    const contributedIds = new Set(contributed.map(getId));
+    
+    return defaults.filter(binding => !contributedIds.has(getId(binding)));
+  }
+  
+  /**
+   * Merge defaults with user bindings into the effective keymap
+   * Removed defaults are kept (origin "removed", disabled) so they can still be shown.
+   * Removal entries that match no default are kept as disabled user rows.
+   */
+  static merge(defaults: ParsedKeybinding[], user: ParsedKeybinding[]): ParsedKeybinding[] {
+    const removals = user.filter(b => b.disabled);
+    const matchedRemovals = new Set<ParsedKeybinding>();
+    
+    const effectiveDefaults = defaults.map(binding => {
+      const removal = removals.find(r => this.removes(r, binding));
+      
+      if (!removal) {
+        return binding;
+      }
+      
+      matchedRemovals.add(removal);
+      return { ...binding, origin: 'removed' as const, disabled: true };
+    });
+    
+    const effectiveUser = user.filter(b => !b.disabled || !matchedRemovals.has(b));
+    
+    return [...effectiveDefaults, ...effectiveUser];
+  }
+  
+  /**
+   * Check whether a removal entry removes a default binding
+   */
+  static removes(removal: ParsedKeybinding, target: ParsedKeybinding): boolean {
+    if (removal.command !== target.command) {
+      return false;
+    }
+    
+    if (removal.key) {
+      const removalKey = PrefixGraphBuilder.normalizeKeySequence(removal.key);
+      if (removalKey !== PrefixGraphBuilder.normalizeKeySequence(target.key)) {
+        return false;
+      }
+    }
+    
+    if (removal.when) {
+      if (!target.when) {
+        return false;
+      }
+      return PrefixGraphBuilder.normalizeWhen(removal) === PrefixGraphBuilder.normalizeWhen(target);
+    }
+    
+    return true;
+  }
+}
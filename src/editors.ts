@@ -0,0 +1,82 @@
+/**
+ * Editor Discovery Module
+ * 
+ * Knows where VS Code-based editors keep their user data:
+ * - Detects which editor ChordMap is running in
+ * - Resolves each editor's User directory for the current platform
+ * - Discovers which editors are installed (their User directory exists)
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { EditorInstall } from './types';
+
+/** Editor display names, the app names they report, and their data folders */
+const KNOWN_EDITORS: { name: string; appName: string; folder: string }[] = [
+  { name: 'VS Code Insiders', appName: 'Insiders', folder: 'Code - Insiders' },
+  { name: 'VSCodium', appName: 'VSCodium', folder: 'VSCodium' },
+  { name: 'Cursor', appName: 'Cursor', folder: 'Cursor' },
+  { name: 'Antigravity', appName: 'Antigravity', folder: 'Antigravity' },
+  { name: 'VS Code', appName: 'Visual Studio Code', folder: 'Code' }
+];
+
+export class EditorDiscovery {
+  
+  /**
+   * Detect the running editor's name from vscode.env
+   */
+  static detectEditorName(): string {
+    const appName = vscode.env.appName;
+    const editor = KNOWN_EDITORS.find(e => appName.includes(e.appName));
+    return editor ? editor.name : 'VS Code';
+  }
+  
+  /**
+   * Get an editor's User directory for the current platform
+   */
+  static getUserPath(editorName: string): string {
+    const editor = KNOWN_EDITORS.find(e => e.name === editorName);
+    return path.join(this.getAppDataPath(), editor ? editor.folder : 'Code', 'User');
+  }
+  
+  /**
+   * List editors whose User directory exists
+   */
+  static async discover(): Promise<EditorInstall[]> {
+    const installs: EditorInstall[] = [];
+    
+    for (const editor of KNOWN_EDITORS) {
+      const userPath = this.getUserPath(editor.name);
+      
+      try {
+        await fs.access(userPath);
+        installs.push({ name: editor.name, userPath });
+      } catch {
+        // Not installed
+      }
+    }
+    
+    return installs;
+  }
+  
+  /**
+   * Platform-specific application data directory
+   */
+  private static getAppDataPath(): string {
+    const platform = os.platform();
+    const homeDir = os.homedir();
+    
+    if (platform === 'darwin') {
+      // macOS
+      return path.join(homeDir, 'Library', 'Application Support');
+    } else if (platform === 'win32') {
+      // Windows
+      return process.env.APPDATA || path.join(homeDir, 'AppData', 'Roaming');
+    }
+    
+    // Linux
+    return process.env.XDG_CONFIG_HOME || path.join(homeDir, '.config');
+  }
+}
@@ -8,9 +8,20 @@ import * as vscode from 'vscode';
 import { SyncController } from './syncController';
 import { SettingsManager } from './settingsManager';
 import { SearchIndex } from './searchIndex';
-import { ChordMapTreeDataProvider } from './treeView';
+import { ChordMapTreeDataProvider, ChordMapTreeItem } from './treeView';
 import { LiveChordTracker } from './liveTracker';
 import { SettingsView } from './settingsView';
+import { KeymapCompareView } from './keymapCompareView';
+import { KeymapHistory } from './keymapHistory';
+import { KeymapStore } from './keymapStore';
+import { BulkAction, KeybindingActions } from './keybindingActions';
+import { ChordRecorder } from './chordRecorder';
+import { FreeChordFinder } from './freeChordFinder';
+import { CanonicalChords } from './canonicalChord';
+import { KeybindingCodeActions } from './keybindingCodeActions';
+import { KeybindingEntry } from './keybindingsFileEditor';
+import { KeybindingParser } from './parser';
+import { FreeChord, ParsedKeybinding, PrefixNode } from './types';
 
 let syncController: SyncController;
 let settingsManager: SettingsManager;
@@ -18,6 +29,10 @@ let searchIndex: SearchIndex;
 let treeDataProvider: ChordMapTreeDataProvider;
 let liveTracker: LiveChordTracker;
 let settingsView: SettingsView;
+let compareView: KeymapCompareView;
+let keymapHistory: KeymapHistory;
+let keybindingActions: KeybindingActions;
+let chordRecorder: ChordRecorder;
 
 /**
  * Extension activation
@@ -26,17 +41,27 @@ export async function activate(context: vscode.ExtensionContext) {
   console.log('ChordMap extension activating...');
   
   // Initialize modules
-  syncController = new SyncController(context);
   settingsManager = new SettingsManager();
+  // The store is loaded by the sync controller on initialize
+  const keymapStore = new KeymapStore(context);
+  keymapHistory = new KeymapHistory(keymapStore);
+  syncController = new SyncController(context, settingsManager, keymapStore, keymapHistory);
+  keybindingActions = new KeybindingActions(syncController);
+  chordRecorder = new ChordRecorder(() => syncController.getBindings(), settingsManager, keybindingActions);
   searchIndex = new SearchIndex();
   liveTracker = new LiveChordTracker(context);
-  settingsView = new SettingsView(context);
+  settingsView = new SettingsView(context, () => syncController.getBindings());
+  compareView = new KeymapCompareView(
+    () => syncController.getEditorKeymaps(),
+    (bindings, target, replace) => syncController.copyBindingsToEditor(bindings, target, replace)
+  );
   treeDataProvider = new ChordMapTreeDataProvider(settingsManager, liveTracker, context);
   
   // Register TreeView
   const treeView = vscode.window.createTreeView('chordmapExplorer', {
     treeDataProvider,
-    showCollapseAll: true
+    showCollapseAll: true,
+    canSelectMany: true
   });
   
   context.subscriptions.push(treeView);
@@ -59,6 +84,110 @@ export async function activate(context: vscode.ExtensionContext) {
     })
   );
   
+  context.subscriptions.push(
+    vscode.commands.registerCommand('chordmap.syncProfile', async () => {
+      await syncController.syncProfiles();
+    })
+  );
+  
+  context.subscriptions.push(
+    vscode.commands.registerCommand('chordmap.syncEditors', async () => {
+      if (await syncController.syncEditors()) {
+        compareView.show();
+      }
+    })
+  );
+  
+  context.subscriptions.push(
+    vscode.commands.registerCommand('chordmap.compareEditors', () => {
+      compareView.show();
+    })
+  );
+  
+  context.subscriptions.push(
+    vscode.commands.registerCommand('chordmap.showHistory', async () => {
+      await keymapHistory.showHistory();
+    })
+  );
+  
+  context.subscriptions.push(
+    vscode.commands.registerCommand('chordmap.recordKeybinding', async () => {
+      await chordRecorder.show();
+    })
+  );
+  
+  context.subscriptions.push(
+    vscode.commands.registerCommand('chordmap.findFreeChords', async (item?: { prefixNode?: PrefixNode }) => {
+      await handleFindFreeChordsCommand(item?.prefixNode);
+    })
+  );
+  
+  // Quick fixes for ChordMap diagnostics in the synced keybindings.json
+  context.subscriptions.push(
+    vscode.languages.registerCodeActionsProvider(
+      { scheme: 'file', pattern: '**/keybindings.json' },
+      new KeybindingCodeActions(() => syncController.getSyncMetadata()?.filePath, () => syncController.getBindings()),
+      { providedCodeActionKinds: KeybindingCodeActions.providedCodeActionKinds }
+    )
+  );
+  
+  context.subscriptions.push(
+    vscode.commands.registerCommand('chordmap.rebindToFreeChord', async (entry: KeybindingEntry) => {
+      await handleRebindToFreeChordCommand(entry);
+    })
+  );
+  
+  context.subscriptions.push(
+    vscode.commands.registerCommand('chordmap.organizeKeybindings', async () => {
+      await keybindingActions.organize();
+    })
+  );
+  
+  context.subscriptions.push(
+    vscode.commands.registerCommand('chordmap.movePrefix', async (item?: { prefixNode?: PrefixNode }) => {
+      if (item?.prefixNode) {
+        await keybindingActions.movePrefix(item.prefixNode.fullPath.join(' '));
+      }
+    })
+  );
+  
+  // Binding item context menu (the tree passes the clicked item)
+  const bindingActions: [string, (binding: ParsedKeybinding) => Promise<void>][] = [
+    ['chordmap.changeKey', binding => keybindingActions.changeKey(binding)],
+    ['chordmap.changeWhen', binding => keybindingActions.changeWhen(binding)],
+    ['chordmap.removeBinding', binding => keybindingActions.remove(binding)],
+    ['chordmap.disableBinding', binding => keybindingActions.disable(binding)],
+    ['chordmap.duplicateBinding', binding => keybindingActions.duplicate(binding)]
+  ];
+  
+  for (const [command, action] of bindingActions) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(command, async (item?: { binding?: ParsedKeybinding }) => {
+        if (item?.binding) {
+          await action(item.binding);
+        }
+      })
+    );
+  }
+  
+  // Bulk actions on the selection or a category (the tree passes the clicked item and the selection)
+  const bulkActions: [string, BulkAction][] = [
+    ['chordmap.bulkDisable', 'disable'],
+    ['chordmap.bulkRemove', 'remove'],
+    ['chordmap.bulkRecategorize', 'recategorize'],
+    ['chordmap.bulkTag', 'tag'],
+    ['chordmap.bulkExport', 'export']
+  ];
+  
+  for (const [command, action] of bulkActions) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(command, async (item?: ChordMapTreeItem, items?: ChordMapTreeItem[]) => {
+        const selection = items?.length ? items : (item ? [item] : treeView.selection);
+        await keybindingActions.runBulk(action, treeDataProvider.getBindingsForItems([...selection]));
+      })
+    );
+  }
+  
   context.subscriptions.push(
     vscode.commands.registerCommand('chordmap.refreshView', async () => {
       await handleRefreshCommand();
@@ -92,6 +221,15 @@ export async function activate(context: vscode.ExtensionContext) {
     })
   );
   
+  context.subscriptions.push(
+    vscode.commands.registerCommand('chordmap.toggleCustomizationsOnly', async () => {
+      const config = vscode.workspace.getConfiguration('chordMap');
+      const current = config.get<boolean>('showOnlyCustomizations', false);
+      await config.update('showOnlyCustomizations', !current, vscode.ConfigurationTarget.Global);
+      vscode.window.showInformationMessage(`Now showing: ${!current ? 'Customizations Only' : 'Effective Keymap'}`);
+    })
+  );
+  
   context.subscriptions.push(
     vscode.commands.registerCommand('chordmap.setViewMode', async () => {
       const mode = await vscode.window.showQuickPick(
@@ -111,11 +249,21 @@ export async function activate(context: vscode.ExtensionContext) {
     })
   );
   
+  // Refresh views whenever a sync completes (manual, auto or file watcher)
+  context.subscriptions.push(
+    syncController.onDidSync(async () => {
+      await loadData();
+    })
+  );
+  
   // Register disposables
   context.subscriptions.push(syncController);
   context.subscriptions.push(settingsManager);
   context.subscriptions.push(liveTracker);
   context.subscriptions.push(settingsView);
+  context.subscriptions.push(compareView);
+  context.subscriptions.push(chordRecorder);
+  context.subscriptions.push(keybindingActions);
   
   // Initialize sync controller (handles auto-sync)
   await syncController.initialize();
@@ -175,15 +323,22 @@ async function handleSearchCommand(): Promise<void> {
   
   // Show results in quick pick
   interface SearchQuickPickItem extends vscode.QuickPickItem {
-    binding: any;
+    binding?: any;
   }
   
-  const items: SearchQuickPickItem[] = results.map(result => ({
+  const bulkItem: SearchQuickPickItem = {
+    label: `$(checklist) Bulk actions on all ${results.length} result${results.length !== 1 ? 's' : ''}...`,
+    alwaysShow: true
+  };
+  
+  const items: SearchQuickPickItem[] = [bulkItem, ...results.map(result => ({
     label: result.binding.commandLabel || result.binding.command,
     description: result.binding.key,
-    detail: result.binding.when ? `When: ${result.binding.when}` : undefined,
+    detail: result.matches.chain && result.binding.chain
+      ? `Runs: ${result.binding.chain.map(step => step.command).join(' → ')}`
+      : (result.binding.when ? `When: ${result.binding.when}` : undefined),
     binding: result.binding
-  }));
+  }))];
   
   const selected = await vscode.window.showQuickPick(items, {
     placeHolder: 'Select a keybinding to view details',
@@ -191,7 +346,9 @@ async function handleSearchCommand(): Promise<void> {
     matchOnDetail: true
   });
   
-  if (selected) {
+  if (selected === bulkItem) {
+    await handleBulkActionPick(results.map(result => result.binding));
+  } else if (selected) {
     // Show detailed info
     const binding = selected.binding;
     const info = [
@@ -206,6 +363,157 @@ async function handleSearchCommand(): Promise<void> {
   }
 }
 
+/**
+ * Pick a bulk action to run on a set of bindings
+ */
+async function handleBulkActionPick(bindings: ParsedKeybinding[]): Promise<void> {
+  const actions: (vscode.QuickPickItem & { action: BulkAction })[] = [
+    { label: '$(circle-slash) Disable', action: 'disable' },
+    { label: '$(trash) Remove', action: 'remove' },
+    { label: '$(symbol-folder) Re-categorize...', action: 'recategorize' },
+    { label: '$(tag) Tag...', action: 'tag' },
+    { label: '$(export) Export', action: 'export' }
+  ];
+  
+  const selected = await vscode.window.showQuickPick(actions, {
+    placeHolder: `Action for ${bindings.length} binding${bindings.length !== 1 ? 's' : ''}`
+  });
+  
+  if (selected) {
+    await keybindingActions.runBulk(selected.action, bindings);
+  }
+}
+
+/**
+ * Handle find free chords command
+ * Lists unused continuations of a prefix; picking one binds it to the target
+ * command when that is a command ID, else copies the key sequence
+ */
+async function handleFindFreeChordsCommand(prefixNode?: PrefixNode): Promise<void> {
+  const prefix = prefixNode
+    ? prefixNode.fullPath.join(' ')
+    : await vscode.window.showInputBox({
+      prompt: 'Prefix to find free continuations of',
+      placeHolder: 'e.g. cmd+k or ctrl+alt+g',
+      validateInput: value => value.trim() ? undefined : 'Enter a prefix chord'
+    });
+  
+  if (!prefix) {
+    return;
+  }
+  
+  const bindings = await syncController.getBindings();
+  
+  if (FreeChordFinder.isPrefixBound(prefix, bindings)) {
+    vscode.window.showWarningMessage(`ChordMap: "${prefix}" is bound itself, so no chord after it can fire`);
+    return;
+  }
+  
+  const target = await vscode.window.showInputBox({
+    prompt: 'Optional: command ID or name to find a mnemonic key for',
+    placeHolder: 'e.g. git.pull or Toggle Terminal'
+  });
+  
+  if (target === undefined) {
+    return;
+  }
+  
+  const commandId = target.trim() && (await vscode.commands.getCommands(true)).includes(target.trim())
+    ? target.trim()
+    : undefined;
+  
+  const free = await pickFreeChord(
+    prefix,
+    bindings,
+    target.trim() || undefined,
+    commandId ? `Select a chord to bind to ${commandId}` : 'Select a chord to copy its key sequence'
+  );
+  
+  if (!free) {
+    return;
+  }
+  
+  if (commandId) {
+    await keybindingActions.add({ key: free.keySequence, command: commandId });
+  } else {
+    await vscode.env.clipboard.writeText(free.keySequence);
+    vscode.window.showInformationMessage(`ChordMap: Copied "${free.keySequence}"`);
+  }
+}
+
+/**
+ * Handle rebind to free chord command (a keybindings.json quick fix)
+ * Multi-chord entries keep their prefix; single chords are moved under a prefix the user picks
+ */
+async function handleRebindToFreeChordCommand(entry: KeybindingEntry): Promise<void> {
+  const [binding] = KeybindingParser.parseBindings([entry], syncController.getSyncMetadata()?.editorName || 'VS Code');
+  
+  if (!binding) {
+    return;
+  }
+  
+  const chords = binding.key.trim().split(/\s+/);
+  const platform = settingsManager.getTargetPlatform();
+  const prefix = chords.length > 1
+    ? chords.slice(0, -1).join(' ')
+    : await vscode.window.showInputBox({
+      prompt: `Prefix to find a free chord for ${binding.command} under`,
+      value: platform === 'darwin' ? 'cmd+k' : 'ctrl+k',
+      validateInput: value => value.trim() ? undefined : 'Enter a prefix chord'
+    });
+  
+  if (!prefix) {
+    return;
+  }
+  
+  const bindings = await syncController.getBindings();
+  
+  if (FreeChordFinder.isPrefixBound(prefix, bindings)) {
+    vscode.window.showWarningMessage(`ChordMap: "${prefix}" is bound itself, so no chord after it can fire`);
+    return;
+  }
+  
+  const free = await pickFreeChord(prefix, bindings, binding.command, `Select a chord to bind ${binding.command} to`);
+  
+  if (free) {
+    await keybindingActions.changeKey(binding, free.keySequence);
+  }
+}
+
+/**
+ * Let the user pick a free continuation of a prefix, cheapest (and most mnemonic) first
+ */
+async function pickFreeChord(
+  prefix: string,
+  bindings: ParsedKeybinding[],
+  target: string | undefined,
+  placeHolder: string
+): Promise<FreeChord | undefined> {
+  const platform = settingsManager.getTargetPlatform();
+  const freeChords = FreeChordFinder.find(prefix, bindings, platform, target);
+  
+  if (freeChords.length === 0) {
+    vscode.window.showInformationMessage(`ChordMap: No free chords after "${prefix}"`);
+    return undefined;
+  }
+  
+  const selected = await vscode.window.showQuickPick(
+    freeChords.map(free => ({
+      label: free.keySequence.split(' ').map(chord => CanonicalChords.format(chord, platform)).join(' '),
+      description: [free.keySequence, free.mnemonic ? `"${free.mnemonic}"` : ''].filter(Boolean).join(' · '),
+      detail: `Effort ${free.cost.toFixed(1)}`,
+      free
+    })),
+    {
+      title: `Free chords after ${prefix}`,
+      placeHolder,
+      matchOnDescription: true
+    }
+  );
+  
+  return selected?.free;
+}
+
 /**
  * Load data and update views
  */
@@ -0,0 +1,93 @@
+/**
+ * Extension Keybindings Module
+ * 
+ * Collects keybindings contributed by installed extensions
+ * (contributes.keybindings in each extension's package.json).
+ * Resolves platform-specific key fields (mac/linux/win) the same way VS Code does.
+ */
+
+import * as vscode from 'vscode';
+import { ParsedKeybinding } from './types';
+import { KeybindingParser } from './parser';
+
+/**
+ * Shape of a contributes.keybindings entry
+ */
+interface ContributedKeybinding {
+  key?: string;
+  mac?: string;
+  linux?: string;
+  win?: string;
+  command?: string;
+  when?: string;
+  args?: unknown;
+}
+
+export class ExtensionKeybindingCollector {
+  
+  /**
+   * Collect keybindings from every installed extension
+   * Each binding's sourceEditor is set to the contributing extension id
+   */
+  static collect(platform: NodeJS.Platform): ParsedKeybinding[] {
+    const bindings: ParsedKeybinding[] = [];
+    
+    for (const extension of vscode.extensions.all) {
+      const entries = this.getContributedKeybindings(extension.packageJSON);
+      
+      if (entries.length === 0) {
+        continue;
+      }
+      
+      const rawBindings = entries
+        .map(entry => this.resolveEntry(entry, platform))
+        .filter((entry): entry is ContributedKeybinding => entry !== undefined);
+      
+      bindings.push(...KeybindingParser.parseBindings(rawBindings, extension.id, 'extension'));
+    }
+    
+    return bindings;
+  }
+  
+  /**
+   * Read contributes.keybindings (a single object or an array)
+   */
+  private static getContributedKeybindings(packageJSON: any): ContributedKeybinding[] {
+    const contributed = packageJSON?.contributes?.keybindings;
+    
+    if (!contributed) {
+      return [];
+    }
+    
+    return Array.isArray(contributed) ? contributed : [contributed];
+  }
+  
+  /**
+   * Pick the key for the current platform
+   * Returns undefined when the entry has no key for this platform
+   */
+  private static resolveEntry(
+    entry: ContributedKeybinding,
+    platform: NodeJS.Platform
+  ): ContributedKeybinding | undefined {
+    if (!entry || typeof entry !== 'object') {
+      return undefined;
+    }
+    
+    let key = entry.key;
+    
+    if (platform === 'darwin' && entry.mac) {
+      key = entry.mac;
+    } else if (platform === 'win32' && entry.win) {
+      key = entry.win;
+    } else if (platform === 'linux' && entry.linux) {
+      key = entry.linux;
+    }
+    
+    if (!key) {
+      return undefined;
+    }
+    
+    return { key, command: entry.command, when: entry.when, args: entry.args };
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Free Chord Finder Module
+ * 
+ * Suggests unused continuations of a prefix (e.g., what is still free after cmd+k):
+ * - Single keys, alone or with the prefix's own and common modifiers
+ * - Ordered by ergonomic cost and mnemonic match against a target command name
+ * - Skips chords already bound or continued in the keymap and chords the OS reserves
+ */
+
+import { FreeChord, ParsedKeybinding } from './types';
+import { PrefixGraphBuilder } from './prefixGraph';
+import { CanonicalChord, CanonicalChords, TargetPlatform } from './canonicalChord';
+
+/** Keys suggested as continuations, with their base ergonomic cost */
+const KEY_COSTS: Record<string, number> = {
+  // Home row
+  a: 1, s: 1, d: 1, f: 1, j: 1, k: 1, l: 1, ';': 1.5, g: 1.5, h: 1.5,
+  // Top row
+  q: 2.5, w: 2, e: 2, r: 2, t: 2.5, y: 2.5, u: 2, i: 2, o: 2, p: 2.5,
+  // Bottom row
+  z: 3, x: 3, c: 2.5, v: 2.5, b: 3, n: 3, m: 2.5, ',': 3, '.': 3, '/': 3,
+  // Number row
+  '1': 4, '2': 4, '3': 4, '4': 4, '5': 4, '6': 4, '7': 4, '8': 4, '9': 4, '0': 4,
+  '[': 4, ']': 4, '-': 4, '=': 4, "'": 3.5
+};
+
+/** Chords the operating system handles before VS Code sees them */
+const OS_RESERVED: Record<TargetPlatform, string[]> = {
+  darwin: [
+    'cmd+q', 'cmd+h', 'cmd+m', 'cmd+tab', 'cmd+space', 'ctrl+space', 'cmd+alt+h', 'cmd+alt+escape',
+    'cmd+shift+3', 'cmd+shift+4', 'cmd+shift+5', 'ctrl+up', 'ctrl+down', 'ctrl+left', 'ctrl+right'
+  ],
+  win32: [
+    'alt+f4', 'alt+tab', 'alt+space', 'ctrl+escape', 'ctrl+alt+delete', 'ctrl+shift+escape',
+    'win+d', 'win+e', 'win+l', 'win+r', 'win+tab', 'win+shift+s'
+  ],
+  linux: [
+    'alt+f4', 'alt+tab', 'ctrl+alt+delete', 'ctrl+alt+t', 'ctrl+alt+left', 'ctrl+alt+right',
+    'meta+l', 'meta+d', 'meta+tab'
+  ]
+};
+
+/** Cost lowered for a key that stands for the first letter of a word in the target name */
+const MNEMONIC_INITIAL_BONUS = 3;
+
+/** Cost lowered for a key that appears elsewhere in the target name */
+const MNEMONIC_LETTER_BONUS = 1;
+
+export class FreeChordFinder {
+  
+  /**
+   * List free continuations of a prefix, cheapest first
+   * `bindings` should be the effective keymap (defaults included); disabled bindings free their chord
+   */
+  static find(
+    prefix: string,
+    bindings: ParsedKeybinding[],
+    platform: TargetPlatform,
+    target?: string
+  ): FreeChord[] {
+    const tree = PrefixGraphBuilder.buildPrefixTree(bindings.filter(b => !b.disabled));
+    const node = PrefixGraphBuilder.findNode(tree, prefix);
+    const used = new Set(node ? node.children.keys() : []);
+    const reserved = new Set(OS_RESERVED[platform].map(chord => CanonicalChords.toKey(chord)));
+    const words = this.getWords(target);
+    const prefixChords = CanonicalChords.parseSequence(prefix);
+    const lastChord = prefixChords[prefixChords.length - 1];
+    
+    const results: { free: FreeChord; score: number }[] = [];
+    
+    for (const [modifiers, modifierCost] of this.getModifierSets(lastChord, platform)) {
+      for (const [key, keyCost] of Object.entries(KEY_COSTS)) {
+        const chord: CanonicalChord = { ...modifiers, key };
+        const canonicalKey = CanonicalChords.toKey(chord);
+        
+        if (used.has(PrefixGraphBuilder.normalizeChordKey(canonicalKey)) || reserved.has(canonicalKey)) {
+          continue;
+        }
+        
+        const mnemonic = this.matchMnemonic(key, words);
+        const chordString = CanonicalChords.toKeybindingString(chord, platform);
+        
+        const cost = keyCost + modifierCost;
+        
+        results.push({
+          free: {
+            chord: chordString,
+            keySequence: [...prefixChords.map(c => CanonicalChords.toKeybindingString(c, platform)), chordString].join(' '),
+            cost,
+            mnemonic: mnemonic?.word
+          },
+          score: cost - (mnemonic ? mnemonic.bonus : 0)
+        });
+      }
+    }
+    
+    // Mnemonic keys rank ahead of slightly easier ones
+    return results
+      .sort((a, b) => a.score - b.score || a.free.keySequence.localeCompare(b.free.keySequence))
+      .map(result => result.free);
+  }
+  
+  /**
+   * Whether the prefix itself is bound, so nothing after it can ever fire
+   */
+  static isPrefixBound(prefix: string, bindings: ParsedKeybinding[]): boolean {
+    const tree = PrefixGraphBuilder.buildPrefixTree(bindings.filter(b => !b.disabled));
+    const chords = prefix.trim().split(/\s+/);
+    
+    for (let i = 1; i <= chords.length; i++) {
+      const node = PrefixGraphBuilder.findNode(tree, chords.slice(0, i).join(' '));
+      if (node && node.bindings.length > 0) {
+        return true;
+      }
+    }
+    
+    return false;
+  }
+  
+  /**
+   * Modifier combinations to try, with their added cost
+   * Repeating the prefix's modifiers (cmd+k cmd+s) is nearly as easy as a bare key
+   */
+  private static getModifierSets(
+    lastChord: CanonicalChord | undefined,
+    platform: TargetPlatform
+  ): [Omit<CanonicalChord, 'key'>, number][] {
+    const none = { ctrl: false, shift: false, alt: false, meta: false };
+    const primary = platform === 'darwin' ? { ...none, meta: true } : { ...none, ctrl: true };
+    
+    const sets: [Omit<CanonicalChord, 'key'>, number][] = [
+      [none, 0],
+      [{ ...none, shift: true }, 1],
+      [primary, 1.5],
+      [{ ...primary, shift: true }, 3],
+      [{ ...none, alt: true }, 2.5]
+    ];
+    
+    if (lastChord) {
+      const held = { ctrl: lastChord.ctrl, shift: lastChord.shift, alt: lastChord.alt, meta: lastChord.meta };
+      const existing = sets.find(([mods]) => CanonicalChords.toKey({ ...mods, key: 'x' }) === CanonicalChords.toKey({ ...held, key: 'x' }));
+      
+      if (existing) {
+        existing[1] = Math.min(existing[1], 0.5);
+      } else {
+        sets.push([held, 0.5]);
+      }
+    }
+    
+    return sets;
+  }
+  
+  /**
+   * Split a command ID or title into lowercase words
+   * Example: "git.pullRebase" -> ['git', 'pull', 'rebase']
+   */
+  private static getWords(target: string | undefined): string[] {
+    if (!target) {
+      return [];
+    }
+    
+    return target
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(Boolean);
+  }
+  
+  /**
+   * Match a key against the target's words
+   * Later words weigh more: in "git.pull" the action is "pull", not "git"
+   */
+  private static matchMnemonic(key: string, words: string[]): { word: string; bonus: number } | undefined {
+    for (let i = words.length - 1; i >= 0; i--) {
+      if (words[i].startsWith(key)) {
+        return { word: words[i], bonus: MNEMONIC_INITIAL_BONUS + i / words.length };
+      }
+    }
+    
+    const word = words.find(w => w.includes(key));
+    return word ? { word, bonus: MNEMONIC_LETTER_BONUS } : undefined;
+  }
+}
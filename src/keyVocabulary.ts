@@ -0,0 +1,235 @@
+/**
+ * Key Vocabulary Module
+ * 
+ * The set of key names VS Code accepts in keybindings.json.
+ * Handles:
+ * - Modifiers and their aliases (cmd, win, meta, option)
+ * - Named keys, function keys, numpad and OEM punctuation
+ * - Scan codes (e.g., "[KeyA]", "[Digit1]")
+ * - "Did you mean" suggestions for unknown tokens
+ */
+
+/** Modifier names accepted by VS Code */
+const MODIFIERS = ['ctrl', 'shift', 'alt', 'cmd', 'meta', 'win', 'option'];
+
+/** Named (non-character) keys */
+const NAMED_KEYS = [
+  'escape', 'tab', 'enter', 'space', 'backspace', 'delete', 'insert',
+  'home', 'end', 'pageup', 'pagedown', 'up', 'down', 'left', 'right',
+  'capslock', 'numlock', 'scrolllock', 'pausebreak', 'contextmenu',
+  'audiovolumemute', 'audiovolumeup', 'audiovolumedown',
+  'mediatracknext', 'mediatrackprevious', 'mediastop', 'mediaplaypause',
+  'launchmediaplayer', 'launchmail', 'launchapp2',
+  'browsersearch', 'browserhome', 'browserback', 'browserforward'
+];
+
+/** Numpad keys besides the digits */
+const NUMPAD_KEYS = [
+  'numpad_multiply', 'numpad_add', 'numpad_separator',
+  'numpad_subtract', 'numpad_decimal', 'numpad_divide'
+];
+
+/** OEM punctuation keys */
+const OEM_KEYS = [
+  ';', '=', ',', '-', '.', '/', '`', '[', ']', '\\', '\'',
+  'oem_8', 'oem_102', 'abnt_c1', 'abnt_c2'
+];
+
+/** Scan codes (written as "[Name]") besides KeyX, DigitX, FX and NumpadX */
+const SCAN_CODES = [
+  'Enter', 'Escape', 'Backspace', 'Tab', 'Space', 'Minus', 'Equal',
+  'BracketLeft', 'BracketRight', 'Backslash', 'IntlHash', 'Semicolon',
+  'Quote', 'Backquote', 'Comma', 'Period', 'Slash', 'CapsLock',
+  'PrintScreen', 'ScrollLock', 'Pause', 'Insert', 'Home', 'PageUp',
+  'Delete', 'End', 'PageDown', 'ArrowRight', 'ArrowLeft', 'ArrowDown',
+  'ArrowUp', 'NumLock', 'NumpadDivide', 'NumpadMultiply', 'NumpadSubtract',
+  'NumpadAdd', 'NumpadEnter', 'NumpadDecimal', 'NumpadEqual', 'NumpadComma',
+  'IntlBackslash', 'IntlRo', 'IntlYen', 'ContextMenu', 'Power',
+  'AudioVolumeMute', 'AudioVolumeUp', 'AudioVolumeDown',
+  'MediaTrackNext', 'MediaTrackPrevious', 'MediaStop', 'MediaPlayPause'
+];
+
+export class KeyVocabulary {
+  private static keys: Set<string> | undefined;
+  private static scanCodes: Set<string> | undefined;
+  
+  /**
+   * Check whether a token is a modifier (including aliases)
+   */
+  static isModifier(token: string): boolean {
+    return MODIFIERS.includes(token.toLowerCase());
+  }
+  
+  /**
+   * Check whether a token is a key VS Code can bind
+   * Scan codes are matched case-insensitively
+   */
+  static isKey(token: string): boolean {
+    const lower = token.toLowerCase();
+    
+    if (/^\[.+\]$/.test(lower)) {
+      return this.getScanCodes().has(lower);
+    }
+    
+    return this.getKeys().has(lower);
+  }
+  
+  /**
+   * Suggest the closest modifier for an unknown token
+   */
+  static suggestModifier(token: string): string | undefined {
+    return this.closest(token.toLowerCase(), MODIFIERS);
+  }
+  
+  /**
+   * Suggest the closest key for an unknown token
+   */
+  static suggestKey(token: string): string | undefined {
+    const lower = token.toLowerCase();
+    
+    if (/^\[.+\]$/.test(lower)) {
+      const match = this.closest(lower, Array.from(this.getScanCodes()));
+      // Report scan codes in their canonical casing
+      const name = match && this.getScanCodeNames().find(n => `[${n.toLowerCase()}]` === match);
+      return name ? `[${name}]` : undefined;
+    }
+    
+    return this.closest(lower, Array.from(this.getKeys()));
+  }
+  
+  /**
+   * Validate a key sequence, returning a message per unknown token
+   * Example: "cmd+shft+k" -> ['Unknown modifier "shft" in chord "cmd+shft+k" (did you mean "shift"?)']
+   */
+  static validateKeySequence(keySequence: string): string[] {
+    const problems: string[] = [];
+    
+    for (const chord of keySequence.trim().split(/\s+/)) {
+      if (!chord) {
+        continue;
+      }
+      
+      const parts = chord.split('+');
+      const baseKey = parts[parts.length - 1];
+      
+      for (const part of parts.slice(0, -1)) {
+        if (!this.isModifier(part)) {
+          problems.push(this.withSuggestion(
+            `Unknown modifier "${part}" in chord "${chord}"`,
+            this.suggestModifier(part)
+          ));
+        }
+      }
+      
+      if (!baseKey) {
+        problems.push(`Missing key in chord "${chord}"`);
+      } else if (!this.isKey(baseKey) && !this.isModifier(baseKey)) {
+        problems.push(this.withSuggestion(
+          `Unknown key "${baseKey}" in chord "${chord}"`,
+          this.suggestKey(baseKey)
+        ));
+      }
+    }
+    
+    return problems;
+  }
+  
+  /**
+   * Append a "did you mean" hint when there is a suggestion
+   */
+  private static withSuggestion(message: string, suggestion: string | undefined): string {
+    return suggestion ? `${message} (did you mean "${suggestion}"?)` : message;
+  }
+  
+  /**
+   * Find the closest candidate within a small edit distance
+   */
+  private static closest(token: string, candidates: string[]): string | undefined {
+    // Allow roughly one edit per three characters, at least one
+    const maxDistance = Math.max(1, Math.floor(token.length / 3));
+    let best: string | undefined;
+    let bestDistance = Infinity;
+    
+    for (const candidate of candidates) {
+      const distance = this.editDistance(token, candidate);
+      if (distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+    
+    return bestDistance <= maxDistance ? best : undefined;
+  }
+  
+  /**
+   * Levenshtein distance between two strings
+   */
+  private static editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      }
+      previous = current;
+    }
+    
+    return previous[b.length];
+  }
+  
+  /**
+   * Lowercase key names (built once)
+   */
+  private static getKeys(): Set<string> {
+    if (!this.keys) {
+      const keys = new Set<string>([...NAMED_KEYS, ...NUMPAD_KEYS, ...OEM_KEYS]);
+      
+      for (let c = 'a'.charCodeAt(0); c <= 'z'.charCodeAt(0); c++) {
+        keys.add(String.fromCharCode(c));
+      }
+      for (let i = 0; i <= 9; i++) {
+        keys.add(String(i));
+        keys.add(`numpad${i}`);
+      }
+      for (let i = 1; i <= 19; i++) {
+        keys.add(`f${i}`);
+      }
+      
+      this.keys = keys;
+    }
+    
+    return this.keys;
+  }
+  
+  /**
+   * Scan code names in canonical casing
+   */
+  private static getScanCodeNames(): string[] {
+    const names = [...SCAN_CODES];
+    
+    for (let c = 'A'.charCodeAt(0); c <= 'Z'.charCodeAt(0); c++) {
+      names.push(`Key${String.fromCharCode(c)}`);
+    }
+    for (let i = 0; i <= 9; i++) {
+      names.push(`Digit${i}`, `Numpad${i}`);
+    }
+    for (let i = 1; i <= 24; i++) {
+      names.push(`F${i}`);
+    }
+    
+    return names;
+  }
+  
+  /**
+   * Lowercase bracketed scan codes (built once)
+   */
+  private static getScanCodes(): Set<string> {
+    if (!this.scanCodes) {
+      this.scanCodes = new Set(this.getScanCodeNames().map(name => `[${name.toLowerCase()}]`));
+    }
+    
+    return this.scanCodes;
+  }
+}
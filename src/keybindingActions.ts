@@ -0,0 +1,602 @@
+/**
+ * Keybinding Actions Module
+ * 
+ * Edits the synced keybindings.json from the tree's binding items:
+ * - Change Key / Change When
+ * - Remove, Disable (comments out a user entry, or adds a "-command" entry) and Duplicate
+ * - Add new entries (e.g., from the chord recorder)
+ * - Move a whole prefix subtree to another leader, after a preview
+ * - Bulk disable, remove, re-categorize, tag and export, with a diff preview
+ * - Organize the file by category and prefix, with a diff preview
+ * Default and extension bindings are overridden by adding entries, since only
+ * the user file can be written. Every edit is undoable and followed by a re-sync.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CategoryRule, ParsedKeybinding } from './types';
+import { SyncController } from './syncController';
+import { KeybindingEntry, KeybindingsFileEditor, KeybindingsTransform } from './keybindingsFileEditor';
+import { KeyVocabulary } from './keyVocabulary';
+import { WhenClauseParser } from './whenClause';
+import { PrefixMover } from './prefixMover';
+import { KeybindingsOrganizer } from './keybindingsOrganizer';
+import { KeybindingParser } from './parser';
+
+/** Bulk actions offered on a selection, category or search results */
+export type BulkAction = 'disable' | 'remove' | 'recategorize' | 'tag' | 'export';
+
+/** Maximum number of bindings listed in a confirmation dialog */
+const MAX_LISTED = 8;
+
+export class KeybindingActions {
+  private static readonly PREVIEW_SCHEME = 'chordmap-preview';
+  
+  private previews = new Map<string, string>();
+  private disposables: vscode.Disposable[] = [];
+  
+  constructor(private syncController: SyncController) {
+    // Serves proposed keybindings.json content to the diff preview
+    this.disposables.push(
+      vscode.workspace.registerTextDocumentContentProvider(KeybindingActions.PREVIEW_SCHEME, {
+        provideTextDocumentContent: uri => this.previews.get(uri.toString()) || ''
+      })
+    );
+  }
+  
+  /**
+   * Bind the same command to a different key (asked for when not given)
+   */
+  async changeKey(binding: ParsedKeybinding, newKey?: string): Promise<void> {
+    if (!this.isEditable(binding)) {
+      return;
+    }
+    
+    const key = newKey ?? await this.promptForKey(binding.key, `Change key for ${binding.commandLabel || binding.command}`);
+    
+    if (key === undefined || key === binding.key) {
+      return;
+    }
+    
+    await this.edit(`Changed key to "${key}"`, content => {
+      if (binding.origin === 'user') {
+        return KeybindingsFileEditor.setProperty(content, this.findEntry(content, binding), 'key', key);
+      }
+      return this.override(content, binding, { ...KeybindingsFileEditor.toEntry(binding), key });
+    });
+  }
+  
+  /**
+   * Change (or clear) the when clause
+   */
+  async changeWhen(binding: ParsedKeybinding): Promise<void> {
+    if (!this.isEditable(binding)) {
+      return;
+    }
+    
+    const input = await vscode.window.showInputBox({
+      title: `Change when clause for ${binding.key}`,
+      value: binding.when || '',
+      prompt: 'Leave empty to make the binding active everywhere',
+      validateInput: value => {
+        if (!value.trim()) {
+          return undefined;
+        }
+        try {
+          WhenClauseParser.parse(value);
+          return undefined;
+        } catch (error) {
+          return { message: `${error}`, severity: vscode.InputBoxValidationSeverity.Warning };
+        }
+      }
+    });
+    
+    if (input === undefined) {
+      return;
+    }
+    
+    const when = input.trim() || undefined;
+    
+    if (when === binding.when) {
+      return;
+    }
+    
+    await this.edit(when ? `Changed when clause to "${when}"` : 'Removed when clause', content => {
+      if (binding.origin === 'user') {
+        return KeybindingsFileEditor.setProperty(content, this.findEntry(content, binding), 'when', when);
+      }
+      
+      const entry = KeybindingsFileEditor.toEntry(binding);
+      delete entry.when;
+      return this.override(content, binding, when ? { ...entry, when } : entry);
+    });
+  }
+  
+  /**
+   * Remove a binding
+   * User entries are deleted; defaults and extension bindings get a "-command" entry;
+   * a removed default is restored by deleting its "-command" entry
+   */
+  async remove(binding: ParsedKeybinding): Promise<void> {
+    if (binding.origin === 'user' || binding.origin === 'removed') {
+      await this.edit(binding.origin === 'removed' ? `Restored "${binding.key}"` : `Removed "${binding.key}"`, content =>
+        KeybindingsFileEditor.remove(content, this.findEntry(content, binding))
+      );
+      return;
+    }
+    
+    await this.disable(binding);
+  }
+  
+  /**
+   * Disable a binding
+   * "-command" entries only remove default and extension bindings, so a user entry is commented out instead
+   */
+  async disable(binding: ParsedKeybinding): Promise<void> {
+    if (binding.disabled) {
+      vscode.window.showInformationMessage(`ChordMap: "${binding.key}" is already disabled`);
+      return;
+    }
+    
+    if (binding.origin === 'user') {
+      await this.edit(`Disabled "${binding.key}" (commented out its entry)`, content =>
+        KeybindingsFileEditor.commentOut(content, this.findEntry(content, binding))
+      );
+      return;
+    }
+    
+    await this.edit(`Disabled "${binding.key}"`, content =>
+      KeybindingsFileEditor.append(content, this.toRemovalEntry(binding))
+    );
+  }
+  
+  /**
+   * Bind the same command, args and when clause to another key
+   */
+  async duplicate(binding: ParsedKeybinding): Promise<void> {
+    const key = await this.promptForKey(binding.key, `Duplicate ${binding.commandLabel || binding.command} to key`);
+    
+    if (key === undefined) {
+      return;
+    }
+    
+    await this.add({ ...KeybindingsFileEditor.toEntry({ ...binding, disabled: false }), key });
+  }
+  
+  /**
+   * Add a new entry
+   */
+  async add(entry: KeybindingEntry): Promise<void> {
+    await this.edit(`Bound "${entry.key}" to ${entry.command}`, content =>
+      KeybindingsFileEditor.append(content, entry)
+    );
+  }
+  
+  /**
+   * Move every binding under a prefix to a new leader chord
+   * User entries are rewritten in place; default and extension bindings are
+   * re-added under the new leader, optionally disabling the old ones
+   */
+  async movePrefix(prefix: string): Promise<void> {
+    const to = await this.promptForKey(prefix, `Move ${prefix} to leader`);
+    
+    if (to === undefined || to === prefix) {
+      return;
+    }
+    
+    if (PrefixMover.isInsideSubtree(prefix, to)) {
+      vscode.window.showErrorMessage(`ChordMap: Can't move "${prefix}" into its own subtree`);
+      return;
+    }
+    
+    const plan = PrefixMover.plan(await this.syncController.getBindings(), prefix, to);
+    
+    if (plan.moves.length === 0) {
+      vscode.window.showInformationMessage(`ChordMap: No active bindings under "${prefix}"`);
+      return;
+    }
+    
+    const preview = await vscode.workspace.openTextDocument({ language: 'markdown', content: PrefixMover.toMarkdown(plan) });
+    await vscode.window.showTextDocument(preview, { preview: true });
+    
+    const collisions = PrefixMover.countCollisions(plan);
+    const hasDefaults = plan.moves.some(move => move.binding.origin !== 'user');
+    const moveLabel = 'Move';
+    const disableLabel = 'Move and Disable Old Defaults';
+    
+    const choice = await vscode.window.showWarningMessage(
+      `Move ${plan.moves.length} binding${plan.moves.length !== 1 ? 's' : ''} from ${plan.from} to ${plan.to}?`,
+      {
+        modal: true,
+        detail: [
+          collisions > 0 ? `${collisions} will collide with existing bindings (see the preview).` : 'No collisions.',
+          hasDefaults ? 'Default and extension bindings are copied to the new leader unless their old keys are disabled.' : ''
+        ].filter(Boolean).join('\n')
+      },
+      ...(hasDefaults ? [moveLabel, disableLabel] : [moveLabel])
+    );
+    
+    if (!choice) {
+      return;
+    }
+    
+    const disableOld = choice === disableLabel;
+    
+    // One transform, so the whole move is a single undoable edit
+    await this.edit(`Moved ${plan.moves.length} binding${plan.moves.length !== 1 ? 's' : ''} to ${plan.to}`, content => {
+      let updated = content;
+      
+      for (const { binding, newKey } of plan.moves) {
+        if (binding.origin === 'user') {
+          updated = KeybindingsFileEditor.setProperty(updated, this.findEntry(updated, binding), 'key', newKey);
+        } else {
+          if (disableOld) {
+            updated = KeybindingsFileEditor.append(updated, this.toRemovalEntry(binding));
+          }
+          updated = KeybindingsFileEditor.append(updated, { ...KeybindingsFileEditor.toEntry(binding), key: newKey });
+        }
+      }
+      
+      return updated;
+    });
+  }
+  
+  /**
+   * Run a bulk action on a set of bindings
+   */
+  async runBulk(action: BulkAction, bindings: ParsedKeybinding[]): Promise<void> {
+    if (bindings.length === 0) {
+      vscode.window.showInformationMessage('ChordMap: No bindings selected');
+      return;
+    }
+    
+    switch (action) {
+      case 'disable':
+        return this.bulkDisable(bindings);
+      case 'remove':
+        return this.bulkRemove(bindings);
+      case 'recategorize':
+        return this.bulkRecategorize(bindings);
+      case 'tag':
+        return this.bulkTag(bindings);
+      case 'export':
+        return this.bulkExport(bindings);
+    }
+  }
+  
+  /**
+   * Disable bindings (same rules as Disable on a single binding)
+   */
+  private async bulkDisable(bindings: ParsedKeybinding[]): Promise<void> {
+    const enabled = bindings.filter(b => !b.disabled);
+    
+    if (enabled.length === 0) {
+      vscode.window.showInformationMessage('ChordMap: The selected bindings are already disabled');
+      return;
+    }
+    
+    await this.previewAndEdit(
+      `Disable ${this.count(enabled)}`,
+      `Disabled ${this.count(enabled)}`,
+      content => {
+        // Comment out from the end so earlier indexes stay valid
+        const indexes = Array.from(new Set(enabled.filter(b => b.origin === 'user').map(b => this.findEntry(content, b))))
+          .sort((a, b) => b - a);
+        const updated = indexes.reduce((text, index) => KeybindingsFileEditor.commentOut(text, index), content);
+        
+        return enabled
+          .filter(b => b.origin !== 'user')
+          .reduce((text, b) => KeybindingsFileEditor.append(text, this.toRemovalEntry(b)), updated);
+      }
+    );
+  }
+  
+  /**
+   * Remove bindings (same rules as Remove on a single binding)
+   */
+  private async bulkRemove(bindings: ParsedKeybinding[]): Promise<void> {
+    const entries = bindings.filter(b => b.origin === 'user' || b.origin === 'removed');
+    const overridden = bindings.filter(b => (b.origin === 'default' || b.origin === 'extension') && !b.disabled);
+    
+    await this.previewAndEdit(`Remove ${this.count(bindings)}`, `Removed ${this.count(bindings)}`, content => {
+      // Each binding resolves to its own entry (exact duplicates included); delete from the end so earlier indexes stay valid
+      const indexes = Array.from(new Set(entries.map(b => this.findEntry(content, b)))).sort((a, b) => b - a);
+      let updated = indexes.reduce((text, index) => KeybindingsFileEditor.remove(text, index), content);
+      
+      for (const binding of overridden) {
+        updated = KeybindingsFileEditor.append(updated, this.toRemovalEntry(binding));
+      }
+      
+      return updated;
+    });
+  }
+  
+  /**
+   * Move bindings to another category by adding category rules
+   */
+  private async bulkRecategorize(bindings: ParsedKeybinding[]): Promise<void> {
+    const categories = Array.from(new Set(bindings.map(b => b.category).filter((c): c is string => !!c))).sort();
+    const category = await vscode.window.showInputBox({
+      title: `Category for ${this.count(bindings)}`,
+      value: categories.length === 1 ? categories[0] : '',
+      validateInput: value => value.trim() ? undefined : 'Enter a category'
+    });
+    
+    if (!category) {
+      return;
+    }
+    
+    // One rule per binding, matching its command and key
+    const rules: CategoryRule[] = bindings.map(b => ({ category: category.trim(), command: b.command, key: b.key }));
+    
+    const confirm = await vscode.window.showInformationMessage(
+      `Move ${this.count(bindings)} to "${category.trim()}"?`,
+      {
+        modal: true,
+        detail: `Adds ${rules.length} rule${rules.length !== 1 ? 's' : ''} to the top of chordMap.categoryRules ` +
+          `(keybindings.json is unchanged):\n${this.list(bindings)}`
+      },
+      'Recategorize'
+    );
+    
+    if (confirm !== 'Recategorize') {
+      return;
+    }
+    
+    const config = vscode.workspace.getConfiguration('chordMap');
+    const existing = config.get<CategoryRule[]>('categoryRules', []);
+    await config.update('categoryRules', [...rules, ...existing], vscode.ConfigurationTarget.Global);
+  }
+  
+  /**
+   * Replace the tags of bindings (kept by ChordMap, not in keybindings.json)
+   */
+  private async bulkTag(bindings: ParsedKeybinding[]): Promise<void> {
+    const current = Array.from(new Set(bindings.flatMap(b => b.tags || [])));
+    const input = await vscode.window.showInputBox({
+      title: `Tags for ${this.count(bindings)}`,
+      value: current.join(', '),
+      prompt: 'Comma-separated tags; leave empty to clear them'
+    });
+    
+    if (input === undefined) {
+      return;
+    }
+    
+    const tags = Array.from(new Set(input.split(',').map(tag => tag.trim().replace(/^#/, '')).filter(Boolean)));
+    
+    const confirm = await vscode.window.showInformationMessage(
+      tags.length > 0 ? `Tag ${this.count(bindings)} with ${tags.map(t => `#${t}`).join(' ')}?` : `Clear tags of ${this.count(bindings)}?`,
+      { modal: true, detail: `Tags are stored by ChordMap (keybindings.json is unchanged):\n${this.list(bindings)}` },
+      'Apply'
+    );
+    
+    if (confirm === 'Apply') {
+      await this.syncController.setTags(bindings, tags);
+    }
+  }
+  
+  /**
+   * Open the bindings as keybindings.json entries in a new editor
+   */
+  private async bulkExport(bindings: ParsedKeybinding[]): Promise<void> {
+    const entries = bindings.map(b => KeybindingsFileEditor.toEntry(b));
+    const document = await vscode.workspace.openTextDocument({
+      language: 'jsonc',
+      content: `// ${this.count(bindings)} exported by ChordMap\n${JSON.stringify(entries, null, '\t')}\n`
+    });
+    await vscode.window.showTextDocument(document);
+  }
+  
+  /**
+   * Reorder keybindings.json by category and prefix path
+   * Sections use the categories of the synced keymap
+   */
+  async organize(): Promise<void> {
+    const filePath = this.getFilePath();
+    
+    if (!filePath) {
+      vscode.window.showErrorMessage('ChordMap: Sync a keybindings.json before editing bindings');
+      return;
+    }
+    
+    const categories = new Map<string, string>();
+    for (const binding of await this.syncController.getBindings()) {
+      if (binding.category) {
+        categories.set(KeybindingParser.getBindingId(binding), binding.category);
+      }
+    }
+    
+    const transform = (content: string) => KeybindingsOrganizer.organize(
+      content,
+      binding => categories.get(KeybindingParser.getBindingId(binding)) || binding.category || 'Other'
+    );
+    
+    try {
+      const content = (await vscode.workspace.openTextDocument(vscode.Uri.file(filePath))).getText();
+      if (transform(content) === content) {
+        vscode.window.showInformationMessage('ChordMap: keybindings.json is already organized');
+        return;
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to organize keybindings: ${error}`);
+      return;
+    }
+    
+    await this.previewAndEdit('Organize keybindings.json', 'Organized keybindings.json', transform);
+  }
+  
+  /**
+   * Show a diff of keybindings.json before and after a transform, then apply it if confirmed
+   */
+  private async previewAndEdit(title: string, message: string, transform: KeybindingsTransform): Promise<void> {
+    const filePath = this.getFilePath();
+    
+    if (!filePath) {
+      vscode.window.showErrorMessage('ChordMap: Sync a keybindings.json before editing bindings');
+      return;
+    }
+    
+    const fileUri = vscode.Uri.file(filePath);
+    const previewUri = vscode.Uri.from({
+      scheme: KeybindingActions.PREVIEW_SCHEME,
+      path: `/${path.basename(filePath)}`,
+      query: Date.now().toString()
+    });
+    
+    try {
+      const original = (await vscode.workspace.openTextDocument(fileUri)).getText();
+      this.previews.set(previewUri.toString(), transform(original));
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to preview changes: ${error}`);
+      return;
+    }
+    
+    try {
+      await vscode.commands.executeCommand('vscode.diff', fileUri, previewUri, `${title} (preview)`, { preview: true });
+      
+      const confirm = await vscode.window.showWarningMessage(
+        `${title}?`,
+        { modal: true, detail: 'The preview shows the resulting keybindings.json. The edit can be undone in the editor.' },
+        'Apply'
+      );
+      
+      if (confirm === 'Apply') {
+        await this.edit(message, transform);
+      }
+    } finally {
+      this.previews.delete(previewUri.toString());
+    }
+  }
+  
+  /**
+   * "N bindings" / "1 binding"
+   */
+  private count(bindings: ParsedKeybinding[]): string {
+    return `${bindings.length} binding${bindings.length !== 1 ? 's' : ''}`;
+  }
+  
+  /**
+   * List bindings for a confirmation dialog
+   */
+  private list(bindings: ParsedKeybinding[]): string {
+    const lines = bindings.slice(0, MAX_LISTED).map(b => `${b.key} → ${b.commandLabel || b.command}`);
+    if (bindings.length > MAX_LISTED) {
+      lines.push(`…and ${bindings.length - MAX_LISTED} more`);
+    }
+    return lines.join('\n');
+  }
+  
+  /**
+   * Removed defaults only exist as their "-command" entry; restore them before editing
+   */
+  private isEditable(binding: ParsedKeybinding): boolean {
+    if (binding.origin === 'removed') {
+      vscode.window.showInformationMessage(`ChordMap: "${binding.key}" is a removed default. Use Remove to restore it first.`);
+      return false;
+    }
+    return true;
+  }
+  
+  /**
+   * Apply a transform to the synced keybindings.json, then re-sync
+   */
+  private async edit(message: string, transform: KeybindingsTransform): Promise<void> {
+    const filePath = this.getFilePath();
+    
+    if (!filePath) {
+      vscode.window.showErrorMessage('ChordMap: Sync a keybindings.json before editing bindings');
+      return;
+    }
+    
+    try {
+      const unsaved = await KeybindingsFileEditor.apply(filePath, transform);
+      await this.syncController.syncFromPath(filePath, undefined, unsaved);
+      const note = unsaved !== undefined ? ' (keybindings.json has unsaved changes)' : '';
+      vscode.window.showInformationMessage(`ChordMap: ${message}${note}`, 'Open keybindings.json').then(action => {
+        if (action === 'Open keybindings.json') {
+          vscode.window.showTextDocument(vscode.Uri.file(filePath));
+        }
+      });
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to edit keybindings: ${error}`);
+    }
+  }
+  
+  /**
+   * The keybindings.json edits are written to
+   */
+  private getFilePath(): string | undefined {
+    return this.syncController.getSyncMetadata()?.filePath || this.syncController.getDefaultKeybindingsPath();
+  }
+  
+  /**
+   * Replace a default or extension binding: remove it, then add the new entry
+   */
+  private override(content: string, binding: ParsedKeybinding, entry: KeybindingEntry): string {
+    const withRemoval = KeybindingsFileEditor.append(content, this.toRemovalEntry(binding));
+    return KeybindingsFileEditor.append(withRemoval, entry);
+  }
+  
+  /**
+   * "-command" entry that removes a binding
+   * Args are left out so the removal matches regardless of them
+   */
+  private toRemovalEntry(binding: ParsedKeybinding): KeybindingEntry {
+    const entry: KeybindingEntry = { key: binding.key, command: `-${binding.command}` };
+    
+    if (binding.when) {
+      entry.when = binding.when;
+    }
+    
+    return entry;
+  }
+  
+  /**
+   * Index of a user binding's entry in the file (for a removed default, the "-command" entry removing it)
+   */
+  private findEntry(content: string, binding: ParsedKeybinding): number {
+    const index = binding.origin === 'removed'
+      ? KeybindingsFileEditor.findRemovalIndex(content, binding)
+      : KeybindingsFileEditor.findEntryIndex(content, binding);
+    
+    if (index < 0) {
+      throw new Error(`"${binding.key}" → ${binding.command} is no longer in keybindings.json; re-sync and try again`);
+    }
+    
+    return index;
+  }
+  
+  /**
+   * Ask for a key sequence, warning about unknown key tokens
+   */
+  private async promptForKey(value: string, title: string): Promise<string | undefined> {
+    const key = await vscode.window.showInputBox({
+      title,
+      value,
+      prompt: 'Key sequence, e.g. "ctrl+k ctrl+c"',
+      validateInput: input => {
+        if (!input.trim()) {
+          return 'Enter a key sequence';
+        }
+        const problems = KeyVocabulary.validateKeySequence(input);
+        return problems.length > 0
+          ? { message: problems.join('; '), severity: vscode.InputBoxValidationSeverity.Warning }
+          : undefined;
+      }
+    });
+    
+    return key === undefined ? undefined : key.trim().replace(/\s+/g, ' ');
+  }
+  
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+    this.previews.clear();
+  }
+}
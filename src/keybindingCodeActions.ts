@@ -0,0 +1,312 @@
+/**
+ * Keybinding Code Actions Module
+ * 
+ * Quick fixes for ChordMap diagnostics in the synced keybindings.json:
+ * - Remove duplicate, orphaned "-command", overridden or unknown-command entries
+ * - Replace a misspelled key or modifier with the suggested one
+ * - Rebind an entry to a free chord (picked from a list)
+ * - Fix everything fixable in the file at once
+ * Edits go through jsonc-parser, so comments and formatting survive.
+ * Diagnostics come from the last sync, so a fix is only offered while its entry
+ * (or, for key typos, its chord) is still where the diagnostic points.
+ */
+
+import * as vscode from 'vscode';
+import { LintRuleId, ParsedKeybinding } from './types';
+import { KeybindingEntry, KeybindingsFileEditor, KeybindingsTransform } from './keybindingsFileEditor';
+import { PrefixGraphBuilder } from './prefixGraph';
+
+/**
+ * Fix titles for entries a lint rule flags as removable
+ */
+const REMOVAL_TITLES: Record<LintRuleId, (command: string) => string> = {
+  duplicateEntry: () => 'Remove duplicate binding',
+  ineffectiveRemoval: command => `Remove orphaned \`${command}\` entry`,
+  unknownCommand: command => `Remove binding to unknown command \`${command}\``,
+  overriddenEntry: () => 'Remove overridden binding'
+};
+
+/** Unknown key token with a suggestion, as reported by KeyVocabulary */
+const KEY_TYPO_PATTERN = /^Unknown (?:modifier|key) "(.+)" in chord "(.+)" \(did you mean "(.+)"\?\)$/;
+
+/** Any unknown key token */
+const KEY_PROBLEM_PATTERN = /^(?:Unknown (?:modifier|key)|Missing key) /;
+
+/**
+ * A fix for one diagnostic
+ */
+interface KeybindingFix {
+  title: string;
+  
+  /** Entry the fix applies to */
+  index: number;
+  
+  /** Edit that removes the entry, or replaces a token of its key */
+  kind: 'remove' | 'replaceKey';
+  
+  /** Current key, unknown token and its replacement, for replaceKey */
+  key?: string;
+  token?: string;
+  replacement?: string;
+  
+  /** Preferred fix for its diagnostic (applied by "auto fix") */
+  isPreferred: boolean;
+}
+
+export class KeybindingCodeActions implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [
+    vscode.CodeActionKind.QuickFix,
+    vscode.CodeActionKind.SourceFixAll.append('chordmap')
+  ];
+  
+  /**
+   * `getBindings` returns the synced keymap the diagnostics were reported for
+   */
+  constructor(
+    private getFilePath: () => string | undefined,
+    private getBindings: () => Promise<ParsedKeybinding[]>
+  ) {}
+  
+  /**
+   * Fixes for the ChordMap diagnostics in range, plus "Fix all in file"
+   */
+  async provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): Promise<vscode.CodeAction[]> {
+    if (document.uri.fsPath !== this.getFilePath()) {
+      return [];
+    }
+    
+    const actions: vscode.CodeAction[] = [];
+    const fixAllKind = KeybindingCodeActions.providedCodeActionKinds[1];
+    const bindings = await this.getBindings();
+    
+    // Source actions (e.g., on save) ask for "fix all" only
+    if (context.only && context.only.contains(fixAllKind)) {
+      const fixAll = this.createFixAll(document, bindings, fixAllKind);
+      return fixAll ? [fixAll] : [];
+    }
+    
+    const diagnostics = context.diagnostics.filter(d => d.source === 'ChordMap');
+    
+    for (const diagnostic of diagnostics) {
+      for (const fix of this.getFixes(document, diagnostic, bindings)) {
+        const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+        action.diagnostics = [diagnostic];
+        action.isPreferred = fix.isPreferred;
+        action.edit = this.toWorkspaceEdit(document, content => this.applyFixes(content, [fix]));
+        actions.push(action);
+      }
+      
+      const entry = this.getRebindTarget(document, diagnostic, bindings);
+      if (entry) {
+        const action = new vscode.CodeAction('Rebind to free chord…', vscode.CodeActionKind.QuickFix);
+        action.diagnostics = [diagnostic];
+        action.command = { command: 'chordmap.rebindToFreeChord', title: action.title, arguments: [entry] };
+        actions.push(action);
+      }
+    }
+    
+    if (diagnostics.length > 0) {
+      const fixAll = this.createFixAll(document, bindings, vscode.CodeActionKind.QuickFix);
+      if (fixAll) {
+        actions.push(fixAll);
+      }
+    }
+    
+    return actions;
+  }
+  
+  /**
+   * "Fix all in file": the preferred fix of every ChordMap diagnostic in the document
+   * (duplicate removals and key typo replacements)
+   * As a quick fix it is only offered when there is more than one problem to fix
+   */
+  private createFixAll(
+    document: vscode.TextDocument,
+    bindings: ParsedKeybinding[],
+    kind: vscode.CodeActionKind
+  ): vscode.CodeAction | undefined {
+    const diagnostics = vscode.languages.getDiagnostics(document.uri).filter(d => d.source === 'ChordMap');
+    const fixes = diagnostics.flatMap(d => this.getFixes(document, d, bindings).filter(fix => fix.isPreferred));
+    
+    if (fixes.length < (kind === vscode.CodeActionKind.QuickFix ? 2 : 1)) {
+      return undefined;
+    }
+    
+    const action = new vscode.CodeAction(`Fix all ChordMap problems in file (${fixes.length})`, kind);
+    action.diagnostics = diagnostics;
+    action.edit = this.toWorkspaceEdit(document, content => this.applyFixes(content, fixes));
+    return action;
+  }
+  
+  /**
+   * Fixes for one diagnostic, preferred fix first
+   */
+  private getFixes(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    bindings: ParsedKeybinding[]
+  ): KeybindingFix[] {
+    const located = KeybindingsFileEditor.findEntryAt(document.getText(), document.offsetAt(diagnostic.range.start));
+    
+    if (!located || !located.entry || typeof located.entry !== 'object') {
+      return [];
+    }
+    
+    const { index, entry } = located;
+    const code = String(diagnostic.code);
+    
+    if (code in REMOVAL_TITLES) {
+      if (!this.isFlaggedEntry(document, diagnostic, bindings, entry)) {
+        return [];
+      }
+      
+      return [{
+        title: REMOVAL_TITLES[code as LintRuleId](String(entry.command)),
+        index,
+        kind: 'remove',
+        // Only duplicates are certainly safe to delete: overridden entries may be worth keeping on
+        // another key, and unknown commands or orphaned removals may be for extensions not installed here
+        isPreferred: code === 'duplicateEntry'
+      }];
+    }
+    
+    const typo = KEY_TYPO_PATTERN.exec(diagnostic.message);
+    
+    if (typo && typeof entry.key === 'string') {
+      const [, token, chord, suggestion] = typo;
+      
+      // The entry must still have the misspelled chord
+      if (!entry.key.trim().split(/\s+/).some((part: string) => part === chord && part.split('+').includes(token))) {
+        return [];
+      }
+      
+      return [{
+        title: `Replace \`${token}\` with \`${suggestion}\``,
+        index,
+        kind: 'replaceKey',
+        key: entry.key,
+        token,
+        replacement: suggestion,
+        isPreferred: true
+      }];
+    }
+    
+    return [];
+  }
+  
+  /**
+   * Entry to offer "Rebind to free chord…" for: overridden entries and entries with unknown keys
+   */
+  private getRebindTarget(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    bindings: ParsedKeybinding[]
+  ): KeybindingEntry | undefined {
+    const code = String(diagnostic.code);
+    
+    if (code !== 'overriddenEntry' && !(code === 'invalidValue' && KEY_PROBLEM_PATTERN.test(diagnostic.message))) {
+      return undefined;
+    }
+    
+    const located = KeybindingsFileEditor.findEntryAt(document.getText(), document.offsetAt(diagnostic.range.start));
+    const entry = located?.entry;
+    
+    if (!entry || typeof entry.key !== 'string' || typeof entry.command !== 'string' || entry.command.startsWith('-')) {
+      return undefined;
+    }
+    
+    if (code === 'overriddenEntry' && !this.isFlaggedEntry(document, diagnostic, bindings, entry)) {
+      return undefined;
+    }
+    
+    return {
+      key: entry.key,
+      command: entry.command,
+      when: typeof entry.when === 'string' ? entry.when : undefined,
+      args: entry.args
+    };
+  }
+  
+  /**
+   * Whether an entry is the one a lint diagnostic was reported for at the last sync:
+   * a synced user binding with that finding starts at the diagnostic, with the same key and command
+   */
+  private isFlaggedEntry(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    bindings: ParsedKeybinding[],
+    entry: any
+  ): boolean {
+    const offset = document.offsetAt(diagnostic.range.start);
+    const flagged = bindings.find(b =>
+      b.origin === 'user' &&
+      b.range?.offset === offset &&
+      b.lintFindings?.some(finding => finding.rule === diagnostic.code)
+    );
+    
+    if (!flagged || typeof entry.key !== 'string') {
+      return false;
+    }
+    
+    const expected = KeybindingsFileEditor.toEntry(flagged);
+    
+    return entry.command === expected.command &&
+      PrefixGraphBuilder.normalizeKeySequence(entry.key) === PrefixGraphBuilder.normalizeKeySequence(expected.key);
+  }
+  
+  /**
+   * Apply fixes to the file text
+   * Keys are fixed first (all tokens of an entry together), then entries removed
+   * from the end so indexes stay valid
+   */
+  private applyFixes(content: string, fixes: KeybindingFix[]): string {
+    let updated = content;
+    const keys = new Map<number, string>();
+    
+    for (const fix of fixes.filter(f => f.kind === 'replaceKey')) {
+      const key = keys.get(fix.index) ?? fix.key!;
+      keys.set(fix.index, this.replaceToken(key, fix.token!, fix.replacement!));
+    }
+    
+    for (const [index, key] of keys) {
+      updated = KeybindingsFileEditor.setProperty(updated, index, 'key', key);
+    }
+    
+    const removals = Array.from(new Set(fixes.filter(f => f.kind === 'remove').map(f => f.index))).sort((a, b) => b - a);
+    
+    for (const index of removals) {
+      updated = KeybindingsFileEditor.remove(updated, index);
+    }
+    
+    return updated;
+  }
+  
+  /**
+   * Replace every occurrence of a token between "+" and spaces in a key sequence
+   * Example: ("cmd+shft+k shft+x", "shft", "shift") -> "cmd+shift+k shift+x"
+   */
+  private replaceToken(key: string, token: string, replacement: string): string {
+    return key
+      .split(/(\s+)/)
+      .map(chord => chord.split('+').map(part => (part === token ? replacement : part)).join('+'))
+      .join('');
+  }
+  
+  /**
+   * Workspace edit for a transform of the document text
+   */
+  private toWorkspaceEdit(document: vscode.TextDocument, transform: KeybindingsTransform): vscode.WorkspaceEdit {
+    const edit = new vscode.WorkspaceEdit();
+    const textEdit = KeybindingsFileEditor.toTextEdit(document, transform(document.getText()));
+    
+    if (textEdit) {
+      edit.replace(document.uri, textEdit.range, textEdit.newText);
+    }
+    
+    return edit;
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Keybinding Diagnostics Module
+ * 
+ * Publishes keybindings.json parse problems to the Problems panel
+ * as editor diagnostics with precise locations.
+ * Only the synced file has diagnostics: publishing for another file clears the previous one.
+ */
+
+import * as vscode from 'vscode';
+import { KeybindingProblem, SourceRange } from './types';
+
+export class KeybindingDiagnostics {
+  private collection: vscode.DiagnosticCollection;
+  private publishedUri: vscode.Uri | undefined;
+  
+  constructor(name: string = 'chordmap') {
+    this.collection = vscode.languages.createDiagnosticCollection(name);
+  }
+  
+  /**
+   * Replace diagnostics for a file, removing those of the previously published file
+   * Offsets are resolved against the content that was parsed
+   */
+  publish(filePath: string, content: string, problems: KeybindingProblem[]): void {
+    const lineStarts = KeybindingDiagnostics.computeLineStarts(content);
+    
+    const diagnostics = problems.map(problem => {
+      const diagnostic = new vscode.Diagnostic(
+        KeybindingDiagnostics.toRange(problem.range, lineStarts),
+        problem.message,
+        KeybindingDiagnostics.toSeverity(problem.severity)
+      );
+      diagnostic.source = 'ChordMap';
+      diagnostic.code = problem.code;
+      return diagnostic;
+    });
+    
+    const uri = vscode.Uri.file(filePath);
+    
+    if (this.publishedUri && this.publishedUri.toString() !== uri.toString()) {
+      this.collection.delete(this.publishedUri);
+    }
+    
+    this.collection.set(uri, diagnostics);
+    this.publishedUri = uri;
+  }
+  
+  /**
+   * Remove all diagnostics
+   */
+  clear(): void {
+    this.collection.clear();
+    this.publishedUri = undefined;
+  }
+  
+  /**
+   * Convert an offset range to a VS Code range
+   */
+  static toRange(range: SourceRange, lineStarts: number[]): vscode.Range {
+    return new vscode.Range(
+      this.toPosition(range.offset, lineStarts),
+      this.toPosition(range.offset + range.length, lineStarts)
+    );
+  }
+  
+  /**
+   * Offsets of the first character of each line
+   */
+  static computeLineStarts(content: string): number[] {
+    const starts = [0];
+    
+    for (let i = 0; i < content.length; i++) {
+      if (content[i] === '\n') {
+        starts.push(i + 1);
+      }
+    }
+    
+    return starts;
+  }
+  
+  /**
+   * Binary search the line containing an offset
+   */
+  private static toPosition(offset: number, lineStarts: number[]): vscode.Position {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    
+    return new vscode.Position(low, offset - lineStarts[low]);
+  }
+  
+  private static toSeverity(severity: KeybindingProblem['severity']): vscode.DiagnosticSeverity {
+    switch (severity) {
+      case 'error':
+        return vscode.DiagnosticSeverity.Error;
+      case 'warning':
+        return vscode.DiagnosticSeverity.Warning;
+      default:
+        return vscode.DiagnosticSeverity.Information;
+    }
+  }
+  
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    this.collection.dispose();
+  }
+}
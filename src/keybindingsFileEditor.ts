@@ -0,0 +1,289 @@
+/**
+ * Keybindings File Editor Module
+ * 
+ * Edits keybindings.json without disturbing comments or formatting:
+ * - Computes changes with jsonc-parser's modify
+ * - Applies them as a WorkspaceEdit (undoable) and saves, unless the file had unsaved changes
+ * - Locates existing entries by key, command, args and when clause, or by offset
+ * - Locates the "-command" entry that removes a default, with the merge's matching rules
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as jsonc from 'jsonc-parser';
+import { ParsedKeybinding } from './types';
+import { KeybindingParser } from './parser';
+import { PrefixGraphBuilder } from './prefixGraph';
+import { DefaultKeymap } from './defaultKeymap';
+
+/** A keybindings.json entry */
+export interface KeybindingEntry {
+  key: string;
+  command: string;
+  when?: string;
+  args?: unknown;
+}
+
+/** Transforms the file text; returns the new text */
+export type KeybindingsTransform = (content: string) => string;
+
+export class KeybindingsFileEditor {
+  /**
+   * Convert a parsed binding back into a keybindings.json entry
+   */
+  static toEntry(binding: ParsedKeybinding): KeybindingEntry {
+    const entry: KeybindingEntry = {
+      key: binding.key,
+      command: binding.disabled ? `-${binding.command}` : binding.command
+    };
+    
+    if (binding.when) {
+      entry.when = binding.when;
+    }
+    if (binding.args !== undefined) {
+      entry.args = binding.args;
+    }
+    
+    return entry;
+  }
+  
+  /**
+   * Append an entry to the keybindings array
+   */
+  static append(content: string, entry: KeybindingEntry): string {
+    const base = this.ensureArray(content);
+    const edits = jsonc.modify(base, [-1], entry, {
+      formattingOptions: this.getFormatting(base),
+      isArrayInsertion: true
+    });
+    return jsonc.applyEdits(base, edits);
+  }
+  
+  /**
+   * Remove the entry at an index of the keybindings array
+   */
+  static remove(content: string, index: number): string {
+    const edits = jsonc.modify(content, [index], undefined, { formattingOptions: this.getFormatting(content) });
+    return jsonc.applyEdits(content, edits);
+  }
+  
+  /**
+   * Comment out the entry at an index, keeping its text so it can be re-enabled by hand
+   * Example: `{ "key": "ctrl+b", "command": "foo" },` -> `// { "key": "ctrl+b", "command": "foo" },`
+   * An entry sharing its line with other text is wrapped in a block comment instead
+   */
+  static commentOut(content: string, index: number): string {
+    const root = jsonc.parseTree(content);
+    const nodes = root?.type === 'array' ? root.children || [] : [];
+    const node = nodes[index];
+    
+    if (!root || !node) {
+      return content;
+    }
+    
+    let text = content;
+    let start = node.offset;
+    let end = node.offset + node.length;
+    const comma = this.findComma(text, end, root.offset + root.length);
+    
+    if (comma >= 0) {
+      // The entry's comma goes into the comment with it
+      end = comma + 1;
+    } else if (index > 0) {
+      // Without the last entry, the previous entry's comma would be left trailing
+      const previous = nodes[index - 1];
+      const previousComma = this.findComma(text, previous.offset + previous.length, start);
+      if (previousComma >= 0) {
+        text = text.slice(0, previousComma) + text.slice(previousComma + 1);
+        start--;
+        end--;
+      }
+    }
+    
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    const lineEnd = text.indexOf('\n', end);
+    const before = text.slice(lineStart, start);
+    const after = text.slice(end, lineEnd < 0 ? text.length : lineEnd);
+    const entryText = text.slice(start, end);
+    
+    const commented = before.trim() || !/^(\/\/.*)?$/.test(after.trim())
+      ? `/* ${entryText} */`
+      : entryText.split('\n').map((line, i) => (i === 0 ? `// ${line}` : line.replace(/^(\s*)(?=\S)/, '$1// '))).join('\n');
+    
+    return text.slice(0, start) + commented + text.slice(end);
+  }
+  
+  /**
+   * Set (or, with undefined, delete) a property of the entry at an index
+   */
+  static setProperty(content: string, index: number, property: keyof KeybindingEntry, value: unknown): string {
+    const edits = jsonc.modify(content, [index, property], value, { formattingOptions: this.getFormatting(content) });
+    return jsonc.applyEdits(content, edits);
+  }
+  
+  /**
+   * Find the array index of the entry a binding was parsed from
+   * Exact duplicates match by value, so the entry at the binding's source offset is
+   * preferred while it still matches; otherwise the first matching entry
+   * Returns -1 when the file no longer contains it
+   */
+  static findEntryIndex(content: string, binding: ParsedKeybinding): number {
+    const root = jsonc.parseTree(content, [], { allowTrailingComma: true });
+    
+    if (!root || root.type !== 'array' || !root.children) {
+      return -1;
+    }
+    
+    const target = this.toEntry(binding);
+    const targetKey = PrefixGraphBuilder.normalizeKeySequence(target.key);
+    const entries = root.children.map(node => jsonc.getNodeValue(node));
+    
+    const matches = (entry: any) =>
+      !!entry && typeof entry === 'object' &&
+      typeof entry.key === 'string' &&
+      PrefixGraphBuilder.normalizeKeySequence(entry.key) === targetKey &&
+      entry.command === target.command &&
+      (entry.when || '') === (target.when || '') &&
+      KeybindingParser.getSignature({ ...binding, args: entry.args }) === KeybindingParser.getSignature(binding);
+    
+    const own = binding.range ? root.children.findIndex(node => node.offset === binding.range!.offset) : -1;
+    
+    return own >= 0 && matches(entries[own]) ? own : entries.findIndex(matches);
+  }
+  
+  /**
+   * Find the array index of the "-command" entry that removes a default
+   * Matches like DefaultKeymap.merge: the first removal entry that removes the binding
+   * Returns -1 when the file has none
+   */
+  static findRemovalIndex(content: string, removed: ParsedKeybinding): number {
+    const parseResult = KeybindingParser.parseKeybindingsDocument(content, 'keybindings.json');
+    const removal = parseResult.bindings.find(b => b.disabled && b.range && DefaultKeymap.removes(b, removed));
+    
+    return removal ? this.findEntryAt(content, removal.range!.offset)?.index ?? -1 : -1;
+  }
+  
+  /**
+   * Find the entry whose text contains an offset (e.g., a diagnostic's start)
+   */
+  static findEntryAt(content: string, offset: number): { index: number; entry: any } | undefined {
+    const root = jsonc.parseTree(content);
+    
+    if (!root || root.type !== 'array' || !root.children) {
+      return undefined;
+    }
+    
+    const index = root.children.findIndex(node => node.offset <= offset && offset < node.offset + node.length);
+    
+    return index >= 0 ? { index, entry: jsonc.getNodeValue(root.children[index]) } : undefined;
+  }
+  
+  /**
+   * Transform a keybindings.json file and save it
+   * The change is applied as a single WorkspaceEdit so it can be undone
+   * A document with unsaved changes is left dirty, so those changes aren't saved unreviewed
+   * Returns the document's text when it was left unsaved, so callers can sync from it
+   */
+  static async apply(filePath: string, transform: KeybindingsTransform): Promise<string | undefined> {
+    const uri = vscode.Uri.file(filePath);
+    
+    // openTextDocument fails for missing files, so create an empty keymap first
+    try {
+      await fs.access(filePath);
+    } catch {
+      await fs.writeFile(filePath, '[]\n', 'utf-8');
+    }
+    
+    const document = await vscode.workspace.openTextDocument(uri);
+    const wasDirty = document.isDirty;
+    const textEdit = this.toTextEdit(document, transform(document.getText()));
+    
+    if (!textEdit) {
+      return document.isDirty ? document.getText() : undefined;
+    }
+    
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(uri, textEdit.range, textEdit.newText);
+    
+    if (!await vscode.workspace.applyEdit(edit)) {
+      throw new Error(`Could not edit ${filePath}`);
+    }
+    
+    if (wasDirty) {
+      return document.getText();
+    }
+    
+    await document.save();
+    return undefined;
+  }
+  
+  /**
+   * Edit that turns a document's text into the updated text
+   * Replaces only the changed span to keep the edit (and undo) small; undefined when nothing changed
+   */
+  static toTextEdit(document: vscode.TextDocument, updated: string): vscode.TextEdit | undefined {
+    const original = document.getText();
+    
+    if (updated === original) {
+      return undefined;
+    }
+    
+    let start = 0;
+    while (start < original.length && start < updated.length && original[start] === updated[start]) {
+      start++;
+    }
+    
+    let endOriginal = original.length;
+    let endUpdated = updated.length;
+    while (endOriginal > start && endUpdated > start && original[endOriginal - 1] === updated[endUpdated - 1]) {
+      endOriginal--;
+      endUpdated--;
+    }
+    
+    return vscode.TextEdit.replace(
+      new vscode.Range(document.positionAt(start), document.positionAt(endOriginal)),
+      updated.slice(start, endUpdated)
+    );
+  }
+  
+  /**
+   * Offset of a comma that is the first token between two offsets, or -1
+   */
+  private static findComma(content: string, from: number, to: number): number {
+    const scanner = jsonc.createScanner(content.slice(from, to), true);
+    
+    return scanner.scan() === jsonc.SyntaxKind.CommaToken ? from + scanner.getTokenOffset() : -1;
+  }
+  
+  /**
+   * Treat an empty (or comment-only) file as an empty array
+   */
+  private static ensureArray(content: string): string {
+    const root = jsonc.parseTree(content);
+    
+    if (!root) {
+      // Keep any leading comments
+      return content.trim() ? `${content.trimEnd()}\n[]\n` : '[]\n';
+    }
+    
+    if (root.type !== 'array') {
+      throw new Error('keybindings.json must contain an array');
+    }
+    
+    return content;
+  }
+  
+  /**
+   * Match the file's indentation (VS Code writes keybindings.json with tabs)
+   */
+  private static getFormatting(content: string): jsonc.FormattingOptions {
+    const indent = /\n([ \t]+)\S/.exec(content);
+    const usesTabs = !indent || indent[1].startsWith('\t');
+    
+    return {
+      insertSpaces: !usesTabs,
+      tabSize: usesTabs ? 4 : indent![1].length,
+      eol: content.includes('\r\n') ? '\r\n' : '\n'
+    };
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * Keybindings Organizer Module
+ * 
+ * Reorders the entries of keybindings.json:
+ * - Grouped by category, with a section comment per group
+ * - Then by prefix path, so chords sharing a leader sit together (as in the prefix tree)
+ * - Entries whose order decides precedence keep their relative order: the same key (or one
+ *   key a chord prefix of the other) with overlapping when clauses, and "-command" entries
+ *   after what they remove
+ * Entry text and comments are moved verbatim; section comments from an earlier run are replaced.
+ */
+
+import * as jsonc from 'jsonc-parser';
+import { ParsedKeybinding } from './types';
+import { KeybindingParser } from './parser';
+import { CanonicalChords } from './canonicalChord';
+import { WhenClauseAnalyzer } from './whenClause';
+import { DefaultKeymap } from './defaultKeymap';
+import { ConflictDetector } from './conflictDetector';
+
+/** Section comments written by the organizer (e.g., "// ── Git ──") */
+const SECTION_COMMENT = /^\/\/ ── .+ ──$/;
+
+/** Category of entries that aren't valid bindings */
+const UNPARSED_CATEGORY = 'Unparsed entries';
+
+/**
+ * One array element with its comments
+ */
+interface OrganizedEntry {
+  /** Position in the original file */
+  index: number;
+  
+  /** Entry text as written */
+  text: string;
+  
+  /** Comment lines above the entry */
+  leading: string[];
+  
+  /** Comment after the entry on the same line */
+  trailing?: string;
+  
+  binding?: ParsedKeybinding;
+  category: string;
+  
+  /** Normalized chords of the key, for sorting by prefix path */
+  chords: string[];
+}
+
+export class KeybindingsOrganizer {
+  
+  /**
+   * Organize keybindings.json text
+   * `getCategory` names the section of a binding (e.g., from the synced keymap)
+   * Throws when the file can't be parsed reliably
+   */
+  static organize(content: string, getCategory: (binding: ParsedKeybinding) => string): string {
+    const parseResult = KeybindingParser.parseKeybindingsDocument(content, 'keybindings.json');
+    
+    if (parseResult.hasSyntaxErrors) {
+      throw new Error('keybindings.json has syntax errors');
+    }
+    
+    const root = jsonc.parseTree(content);
+    const nodes = root?.children || [];
+    
+    if (!root || nodes.length === 0) {
+      return content;
+    }
+    
+    const entries = this.readEntries(content, root, parseResult.bindings, getCategory);
+    const ordered = this.order(entries);
+    
+    // Comments after the last entry stay at the end of the array
+    const last = nodes[nodes.length - 1];
+    const footer = this.splitTrivia(content.slice(last.offset + last.length, root.offset + root.length - 1), true).leading;
+    
+    const indent = this.getIndent(content, root);
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines: string[] = [];
+    let section: string | undefined;
+    
+    ordered.forEach((entry, i) => {
+      if (entry.category !== section) {
+        if (section !== undefined) {
+          lines.push('');
+        }
+        lines.push(`${indent}// ── ${entry.category} ──`);
+        section = entry.category;
+      }
+      
+      lines.push(...entry.leading.map(comment => `${indent}${comment}`));
+      const comma = i < ordered.length - 1 ? ',' : '';
+      lines.push(`${indent}${this.reindent(entry.text, indent, eol)}${comma}${entry.trailing ? ` ${entry.trailing}` : ''}`);
+    });
+    
+    lines.push(...footer.map(comment => `${indent}${comment}`));
+    
+    const before = content.slice(0, root.offset);
+    const after = content.slice(root.offset + root.length);
+    
+    return `${before}[${eol}${lines.join(eol)}${eol}]${after}`;
+  }
+  
+  /**
+   * Collect array elements with their comments and sort data
+   */
+  private static readEntries(
+    content: string,
+    root: jsonc.Node,
+    bindings: ParsedKeybinding[],
+    getCategory: (binding: ParsedKeybinding) => string
+  ): OrganizedEntry[] {
+    const nodes = root.children!;
+    const byOffset = new Map(bindings.map(b => [b.range!.offset, b]));
+    const entries: OrganizedEntry[] = [];
+    
+    nodes.forEach((node, index) => {
+      const previousEnd = index > 0 ? nodes[index - 1].offset + nodes[index - 1].length : root.offset + 1;
+      const { trailing, leading } = this.splitTrivia(content.slice(previousEnd, node.offset), index > 0);
+      
+      // A comment after the previous entry's comma belongs to that entry
+      if (index > 0 && trailing) {
+        entries[index - 1].trailing = trailing;
+      }
+      
+      const binding = byOffset.get(node.offset);
+      
+      entries.push({
+        index,
+        text: content.slice(node.offset, node.offset + node.length),
+        leading,
+        binding,
+        category: binding ? getCategory(binding) : UNPARSED_CATEGORY,
+        chords: binding ? CanonicalChords.toSequenceKey(binding.key).split(' ') : []
+      });
+    });
+    
+    const last = nodes[nodes.length - 1];
+    const { trailing } = this.splitTrivia(content.slice(last.offset + last.length, root.offset + root.length - 1), true);
+    entries[entries.length - 1].trailing = trailing;
+    
+    return entries;
+  }
+  
+  /**
+   * Split the text between two entries into a same-line comment (after the comma)
+   * and the comment lines above the next entry
+   * Section comments from an earlier run are dropped
+   */
+  private static splitTrivia(trivia: string, hasPrevious: boolean): { trailing?: string; leading: string[] } {
+    let text = trivia.replace(/^\s*,/, '');
+    let trailing: string | undefined;
+    
+    if (hasPrevious) {
+      const lineEnd = text.indexOf('\n');
+      const sameLine = (lineEnd >= 0 ? text.slice(0, lineEnd) : text).trim();
+      
+      // A block comment that continues on the next line stays with the next entry
+      if (sameLine && !(sameLine.startsWith('/*') && !sameLine.includes('*/'))) {
+        trailing = sameLine;
+        text = lineEnd >= 0 ? text.slice(lineEnd + 1) : '';
+      }
+    }
+    
+    const leading = text
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line && !SECTION_COMMENT.test(line));
+    
+    return { trailing, leading };
+  }
+  
+  /**
+   * Sort by category, then prefix path, without reordering entries whose order matters
+   * Picks the first entry in sort order whose required predecessors are already placed
+   */
+  private static order(entries: OrganizedEntry[]): OrganizedEntry[] {
+    const predecessors = entries.map(entry =>
+      entries.filter(earlier => earlier.index < entry.index && this.orderMatters(earlier, entry))
+    );
+    
+    const sorted = [...entries].sort((a, b) => this.compare(a, b));
+    const placed = new Set<OrganizedEntry>();
+    const result: OrganizedEntry[] = [];
+    
+    while (result.length < entries.length) {
+      const next = sorted.find(entry => !placed.has(entry) && predecessors[entry.index].every(p => placed.has(p)))!;
+      placed.add(next);
+      result.push(next);
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Sort order: category (unparsed entries last), prefix path chord by chord, then file order
+   */
+  private static compare(a: OrganizedEntry, b: OrganizedEntry): number {
+    if (a.category !== b.category) {
+      if (a.category === UNPARSED_CATEGORY || b.category === UNPARSED_CATEGORY) {
+        return a.category === UNPARSED_CATEGORY ? 1 : -1;
+      }
+      return a.category.localeCompare(b.category);
+    }
+    
+    for (let i = 0; i < Math.min(a.chords.length, b.chords.length); i++) {
+      if (a.chords[i] !== b.chords[i]) {
+        return a.chords[i].localeCompare(b.chords[i]);
+      }
+    }
+    
+    return a.chords.length - b.chords.length || a.index - b.index;
+  }
+  
+  /**
+   * Whether swapping two entries could change which binding wins
+   * - Both bind colliding keys (equal, or one a chord prefix of the other) in contexts that may overlap
+   * - One is a "-command" entry that removes the other
+   */
+  private static orderMatters(earlier: OrganizedEntry, later: OrganizedEntry): boolean {
+    const a = earlier.binding;
+    const b = later.binding;
+    
+    if (!a || !b) {
+      // Unparsed entries keep their order among themselves
+      return !a && !b;
+    }
+    
+    if (a.disabled || b.disabled) {
+      return DefaultKeymap.removes(a, b) || DefaultKeymap.removes(b, a) ||
+        (a.disabled && b.disabled && a.command === b.command);
+    }
+    
+    return ConflictDetector.sequencesCollide(CanonicalChords.toSequenceKey(a.key), CanonicalChords.toSequenceKey(b.key)) &&
+      WhenClauseAnalyzer.mayOverlap(a.whenAst, b.whenAst);
+  }
+  
+  /**
+   * Move an entry's continuation lines to the new indentation
+   */
+  private static reindent(text: string, indent: string, eol: string): string {
+    const lines = text.split(/\r?\n/);
+    
+    if (lines.length === 1) {
+      return text;
+    }
+    
+    // The closing brace sits at the entry's original indentation
+    const originalIndent = /^\s*/.exec(lines[lines.length - 1])![0];
+    
+    return lines
+      .map((line, i) => (i > 0 && line.startsWith(originalIndent) ? indent + line.slice(originalIndent.length) : line))
+      .join(eol);
+  }
+  
+  /**
+   * Indentation of entries in the array (VS Code writes keybindings.json with tabs)
+   */
+  private static getIndent(content: string, root: jsonc.Node): string {
+    const first = root.children![0];
+    const lineStart = content.lastIndexOf('\n', first.offset) + 1;
+    const indent = /^[ \t]*/.exec(content.slice(lineStart, first.offset))![0];
+    
+    return indent || '\t';
+  }
+}
@@ -0,0 +1,322 @@
+/**
+ * Keymap Compare View Module
+ * 
+ * Side-by-side comparison of keymaps synced from different editors:
+ * - Bindings present in one keymap and missing from the other
+ * - Bindings bound to different keys in each
+ * - One-click "copy this binding across" into the other editor's keybindings.json
+ */
+
+import * as vscode from 'vscode';
+import { KeymapDiff, NamedKeymap, ParsedKeybinding } from './types';
+import { KeymapDiffer } from './keymapDiff';
+import { KeybindingParser } from './parser';
+
+/** A pending "copy across" action, referenced from the webview by index */
+interface CopyAction {
+  bindings: ParsedKeybinding[];
+  target: string;
+  replace: ParsedKeybinding[];
+}
+
+export class KeymapCompareView {
+  private panel: vscode.WebviewPanel | undefined;
+  private left: string | undefined;
+  private right: string | undefined;
+  private actions: CopyAction[] = [];
+  
+  constructor(
+    private getKeymaps: () => NamedKeymap[],
+    private copyBindings: (bindings: ParsedKeybinding[], target: string, replace: ParsedKeybinding[]) => Promise<void>
+  ) {}
+  
+  /**
+   * Show or focus the comparison panel
+   */
+  show(): void {
+    if (this.panel) {
+      this.panel.reveal();
+      this.refresh();
+      return;
+    }
+    
+    this.panel = vscode.window.createWebviewPanel(
+      'chordmapCompare',
+      'ChordMap: Compare Keymaps',
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true
+      }
+    );
+    
+    this.panel.webview.onDidReceiveMessage(async (message) => {
+      await this.handleMessage(message);
+    });
+    
+    this.panel.onDidDispose(() => {
+      this.panel = undefined;
+    });
+    
+    this.refresh();
+  }
+  
+  /**
+   * Re-render with the latest stored keymaps
+   */
+  refresh(): void {
+    if (!this.panel) return;
+    
+    const keymaps = this.getKeymaps();
+    const names = keymaps.map(k => k.name);
+    
+    // Keep the current selection while it still exists
+    if (!this.left || !names.includes(this.left)) {
+      this.left = names[0];
+    }
+    if (!this.right || !names.includes(this.right) || (this.right === this.left && names.length > 1)) {
+      this.right = names.find(name => name !== this.left) || names[0];
+    }
+    
+    this.panel.webview.html = this.getWebviewContent(keymaps, getNonce());
+  }
+  
+  /**
+   * Handle message from webview
+   */
+  private async handleMessage(message: any): Promise<void> {
+    if (message.type === 'select') {
+      this.left = message.left;
+      this.right = message.right;
+      this.refresh();
+    } else if (message.type === 'copy') {
+      const action = this.actions[message.index];
+      
+      if (!action) {
+        return;
+      }
+      
+      try {
+        await this.copyBindings(action.bindings, action.target, action.replace);
+        vscode.window.showInformationMessage(
+          `ChordMap: Copied ${action.bindings.map(b => `"${b.key}"`).join(', ')} to ${action.target}`
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to copy binding: ${error}`);
+      }
+      
+      this.refresh();
+    }
+  }
+  
+  /**
+   * Generate HTML for the comparison
+   */
+  private getWebviewContent(keymaps: NamedKeymap[], nonce: string): string {
+    const left = keymaps.find(k => k.name === this.left);
+    const right = keymaps.find(k => k.name === this.right);
+    this.actions = [];
+    
+    const options = (selected: string | undefined) => keymaps
+      .map(k => `<option value="${this.escapeHtml(k.name)}"${k.name === selected ? ' selected' : ''}>${this.escapeHtml(k.name)}</option>`)
+      .join('');
+    
+    let body: string;
+    
+    if (keymaps.length < 2 || !left || !right) {
+      body = '<p class="empty">Sync at least two editors with "ChordMap: Sync Other Editors..." to compare them.</p>';
+    } else if (left.name === right.name) {
+      body = '<p class="empty">Pick two different keymaps.</p>';
+    } else {
+      body = this.renderDiff(left, right, KeymapDiffer.compare(left.bindings, right.bindings));
+    }
+    
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Compare Keymaps</title>
+  <style nonce="${nonce}">
+    body {
+      font-family: var(--vscode-font-family);
+      color: var(--vscode-foreground);
+      padding: 16px;
+    }
+    
+    .pickers {
+      display: flex;
+      gap: 12px;
+      align-items: center;
+      margin-bottom: 16px;
+    }
+    
+    select {
+      background: var(--vscode-dropdown-background);
+      color: var(--vscode-dropdown-foreground);
+      border: 1px solid var(--vscode-dropdown-border);
+      padding: 4px;
+    }
+    
+    h2 {
+      font-size: 13px;
+      text-transform: uppercase;
+      color: var(--vscode-descriptionForeground);
+      margin: 20px 0 8px;
+    }
+    
+    table {
+      width: 100%;
+      border-collapse: collapse;
+    }
+    
+    td, th {
+      text-align: left;
+      padding: 4px 8px;
+      border-bottom: 1px solid var(--vscode-panel-border);
+      font-size: 12px;
+    }
+    
+    code {
+      font-family: var(--vscode-editor-font-family);
+    }
+    
+    .meta {
+      color: var(--vscode-descriptionForeground);
+    }
+    
+    button {
+      background: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+      border: none;
+      padding: 3px 8px;
+      cursor: pointer;
+    }
+    
+    button:hover {
+      background: var(--vscode-button-secondaryHoverBackground);
+    }
+    
+    .empty {
+      color: var(--vscode-descriptionForeground);
+    }
+  </style>
+</head>
+<body>
+  <div class="pickers">
+    <select id="left">${options(this.left)}</select>
+    <span>↔</span>
+    <select id="right">${options(this.right)}</select>
+  </div>
+  ${body}
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const left = document.getElementById('left');
+    const right = document.getElementById('right');
+    
+    function select() {
+      vscode.postMessage({ type: 'select', left: left.value, right: right.value });
+    }
+    
+    left.addEventListener('change', select);
+    right.addEventListener('change', select);
+    
+    document.querySelectorAll('button[data-copy]').forEach(button => {
+      button.addEventListener('click', () => {
+        button.disabled = true;
+        vscode.postMessage({ type: 'copy', index: Number(button.getAttribute('data-copy')) });
+      });
+    });
+  </script>
+</body>
+</html>`;
+  }
+  
+  /**
+   * Render the three sections of a diff
+   */
+  private renderDiff(left: NamedKeymap, right: NamedKeymap, diff: KeymapDiff): string {
+    if (KeymapDiffer.isEmpty(diff)) {
+      return `<p class="empty">${this.escapeHtml(left.name)} and ${this.escapeHtml(right.name)} have the same customizations.</p>`;
+    }
+    
+    const copyButton = (bindings: ParsedKeybinding[], target: string, replace: ParsedKeybinding[] = []) => {
+      const index = this.actions.push({ bindings, target, replace }) - 1;
+      return `<button data-copy="${index}">Copy to ${this.escapeHtml(target)}</button>`;
+    };
+    
+    const describe = (binding: ParsedKeybinding) => {
+      const args = KeybindingParser.summarizeArgs(binding.args);
+      const label = binding.commandLabel ? ` <span class="meta">${this.escapeHtml(binding.commandLabel)}</span>` : '';
+      return `<code>${binding.disabled ? '-' : ''}${this.escapeHtml(binding.command)}</code>${label}` +
+        (args ? `<div class="meta"><code>${this.escapeHtml(args)}</code></div>` : '') +
+        (binding.when ? `<div class="meta">when <code>${this.escapeHtml(binding.when)}</code></div>` : '');
+    };
+    
+    const onlyRows = (bindings: ParsedKeybinding[], target: string) => bindings
+      .map(b => `<tr><td><code>${this.escapeHtml(b.key)}</code></td><td>${describe(b)}</td><td>${copyButton([b], target)}</td></tr>`)
+      .join('');
+    
+    let html = '';
+    
+    if (diff.onlyInLeft.length > 0) {
+      html += `<h2>Only in ${this.escapeHtml(left.name)} (${diff.onlyInLeft.length})</h2>
+        <table>${onlyRows(diff.onlyInLeft, right.name)}</table>`;
+    }
+    
+    if (diff.onlyInRight.length > 0) {
+      html += `<h2>Only in ${this.escapeHtml(right.name)} (${diff.onlyInRight.length})</h2>
+        <table>${onlyRows(diff.onlyInRight, left.name)}</table>`;
+    }
+    
+    if (diff.changed.length > 0) {
+      const keys = (bindings: ParsedKeybinding[]) => bindings.map(b => `<code>${this.escapeHtml(b.key)}</code>`).join(', ');
+      
+      html += `<h2>Different keys (${diff.changed.length})</h2>
+        <table>
+          <tr><th>Command</th><th>${this.escapeHtml(left.name)}</th><th>${this.escapeHtml(right.name)}</th><th></th></tr>
+          ${diff.changed.map(change => `<tr>
+            <td>${describe(change.left[0])}</td>
+            <td>${keys(change.left)}</td>
+            <td>${keys(change.right)}</td>
+            <td>${copyButton(change.left, right.name, change.right)} ${copyButton(change.right, left.name, change.left)}</td>
+          </tr>`).join('')}
+        </table>`;
+    }
+    
+    return html;
+  }
+  
+  /**
+   * Escape HTML special characters
+   */
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#039;');
+  }
+  
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    if (this.panel) {
+      this.panel.dispose();
+    }
+  }
+}
+
+/**
+ * Generate a nonce for CSP
+ */
+function getNonce(): string {
+  const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let nonce = '';
+  for (let i = 0; i < 16; i++) {
+    nonce += possible.charAt(Math.floor(Math.random() * possible.length));
+  }
+  return nonce;
+}
@@ -0,0 +1,265 @@
+/**
+ * Keymap Diff Module
+ * 
+ * Compares two keymaps (profiles, editors or snapshots).
+ * Across keymaps, bindings are matched by what they do (command, args, when clause):
+ * - Present on one side only
+ * - Bound to different keys on each side
+ * Between versions of one keymap, bindings are matched by key and when clause:
+ * - Added, removed, or rebound to a different command
+ */
+
+import { KeymapChangeSet, KeymapDiff, ParsedKeybinding } from './types';
+import { KeybindingParser } from './parser';
+import { PrefixGraphBuilder } from './prefixGraph';
+
+export class KeymapDiffer {
+  
+  /**
+   * Diff two keymaps
+   */
+  static compare(left: ParsedKeybinding[], right: ParsedKeybinding[]): KeymapDiff {
+    const leftGroups = this.groupByIdentity(left);
+    const rightGroups = this.groupByIdentity(right);
+    const diff: KeymapDiff = { onlyInLeft: [], onlyInRight: [], changed: [] };
+    
+    const identities = new Set([...leftGroups.keys(), ...rightGroups.keys()]);
+    
+    for (const identity of identities) {
+      const leftBindings = leftGroups.get(identity) || [];
+      const rightBindings = rightGroups.get(identity) || [];
+      
+      const leftKeys = new Set(leftBindings.map(b => PrefixGraphBuilder.normalizeKeySequence(b.key)));
+      const rightKeys = new Set(rightBindings.map(b => PrefixGraphBuilder.normalizeKeySequence(b.key)));
+      
+      const unmatchedLeft = leftBindings.filter(b => !rightKeys.has(PrefixGraphBuilder.normalizeKeySequence(b.key)));
+      const unmatchedRight = rightBindings.filter(b => !leftKeys.has(PrefixGraphBuilder.normalizeKeySequence(b.key)));
+      
+      if (unmatchedLeft.length > 0 && unmatchedRight.length > 0) {
+        diff.changed.push({ left: unmatchedLeft, right: unmatchedRight });
+      } else {
+        diff.onlyInLeft.push(...unmatchedLeft);
+        diff.onlyInRight.push(...unmatchedRight);
+      }
+    }
+    
+    return diff;
+  }
+  
+  /**
+   * Changes from one version of a keymap to the next, by key and when clause
+   */
+  static changes(before: ParsedKeybinding[], after: ParsedKeybinding[]): KeymapChangeSet {
+    const changeSet: KeymapChangeSet = { added: [], removed: [], changed: [] };
+    const beforeGroups = this.groupBySlot(before);
+    const afterGroups = this.groupBySlot(after);
+    
+    for (const slot of new Set([...beforeGroups.keys(), ...afterGroups.keys()])) {
+      const beforeBindings = beforeGroups.get(slot) || [];
+      const afterBindings = afterGroups.get(slot) || [];
+      
+      // Unchanged bindings cancel out
+      const afterSignatures = afterBindings.map(b => this.getActionSignature(b));
+      const removed = beforeBindings.filter(b => {
+        const index = afterSignatures.indexOf(this.getActionSignature(b));
+        if (index >= 0) {
+          afterSignatures.splice(index, 1);
+          return false;
+        }
+        return true;
+      });
+      
+      const beforeSignatures = beforeBindings.map(b => this.getActionSignature(b));
+      const added = afterBindings.filter(b => {
+        const index = beforeSignatures.indexOf(this.getActionSignature(b));
+        if (index >= 0) {
+          beforeSignatures.splice(index, 1);
+          return false;
+        }
+        return true;
+      });
+      
+      // Pair up what's left in the same slot as rebinds
+      while (removed.length > 0 && added.length > 0) {
+        changeSet.changed.push({ before: removed.shift()!, after: added.shift()! });
+      }
+      
+      changeSet.removed.push(...removed);
+      changeSet.added.push(...added);
+    }
+    
+    return changeSet;
+  }
+  
+  /**
+   * Check whether a change set is empty
+   */
+  static hasChanges(changes: KeymapChangeSet): boolean {
+    return changes.added.length > 0 || changes.removed.length > 0 || changes.changed.length > 0;
+  }
+  
+  /**
+   * Summarize a change set (e.g., "2 added, 1 removed")
+   */
+  static summarizeChanges(changes: KeymapChangeSet): string {
+    const parts: string[] = [];
+    
+    if (changes.added.length > 0) {
+      parts.push(`${changes.added.length} added`);
+    }
+    if (changes.removed.length > 0) {
+      parts.push(`${changes.removed.length} removed`);
+    }
+    if (changes.changed.length > 0) {
+      parts.push(`${changes.changed.length} changed`);
+    }
+    
+    return parts.length > 0 ? parts.join(', ') : 'no changes';
+  }
+  
+  /**
+   * Render a change set as Markdown
+   */
+  static changesToMarkdown(title: string, changes: KeymapChangeSet): string {
+    const lines = [`# ${title}`, '', this.summarizeChanges(changes), ''];
+    const code = this.markdownCode;
+    const command = (b: ParsedKeybinding) => {
+      const args = KeybindingParser.summarizeArgs(b.args);
+      return code(`${b.disabled ? '-' : ''}${b.command}${args ? ` (${args})` : ''}`);
+    };
+    
+    const section = (heading: string, bindings: ParsedKeybinding[]) => {
+      if (bindings.length === 0) {
+        return;
+      }
+      lines.push(`## ${heading} (${bindings.length})`, '', '| Key | Command | When |', '| --- | --- | --- |');
+      lines.push(...bindings.map(b => `| ${code(b.key)} | ${command(b)} | ${b.when ? code(b.when) : ''} |`), '');
+    };
+    
+    section('Added', changes.added);
+    section('Removed', changes.removed);
+    
+    if (changes.changed.length > 0) {
+      lines.push(`## Changed (${changes.changed.length})`, '', '| Key | When | Before | After |', '| --- | --- | --- | --- |');
+      for (const { before, after } of changes.changed) {
+        lines.push(`| ${code(after.key)} | ${after.when ? code(after.when) : ''} | ${command(before)} | ${command(after)} |`);
+      }
+      lines.push('');
+    }
+    
+    return lines.join('\n');
+  }
+  
+  /**
+   * Check whether a diff has no differences
+   */
+  static isEmpty(diff: KeymapDiff): boolean {
+    return diff.onlyInLeft.length === 0 && diff.onlyInRight.length === 0 && diff.changed.length === 0;
+  }
+  
+  /**
+   * Keep only bindings the user wrote or removed (defaults and extension
+   * contributions depend on the running editor, not the compared keymap)
+   */
+  static customizations(bindings: ParsedKeybinding[]): ParsedKeybinding[] {
+    return bindings.filter(b => b.origin === 'user' || b.origin === 'removed');
+  }
+  
+  /**
+   * Render a diff as a Markdown section
+   */
+  static toMarkdown(leftName: string, rightName: string, diff: KeymapDiff): string {
+    const lines = [`## ${leftName} ↔ ${rightName}`, ''];
+    
+    if (this.isEmpty(diff)) {
+      lines.push('No differences.', '');
+      return lines.join('\n');
+    }
+    
+    const code = this.markdownCode;
+    
+    const row = (b: ParsedKeybinding) => {
+      const args = KeybindingParser.summarizeArgs(b.args);
+      const command = `${b.disabled ? '-' : ''}${b.command}${args ? ` (${args})` : ''}`;
+      return `| ${code(b.key)} | ${code(command)} | ${b.when ? code(b.when) : ''} |`;
+    };
+    
+    const section = (title: string, bindings: ParsedKeybinding[]) => {
+      if (bindings.length === 0) {
+        return;
+      }
+      lines.push(`### ${title} (${bindings.length})`, '', '| Key | Command | When |', '| --- | --- | --- |');
+      lines.push(...bindings.map(row), '');
+    };
+    
+    section(`Only in ${leftName}`, diff.onlyInLeft);
+    section(`Only in ${rightName}`, diff.onlyInRight);
+    
+    if (diff.changed.length > 0) {
+      lines.push(`### Different keys (${diff.changed.length})`, '', `| Command | ${leftName} | ${rightName} |`, '| --- | --- | --- |');
+      for (const change of diff.changed) {
+        const keys = (bindings: ParsedKeybinding[]) => bindings.map(b => code(b.key)).join(', ');
+        lines.push(`| ${code(change.left[0].command)} | ${keys(change.left)} | ${keys(change.right)} |`);
+      }
+      lines.push('');
+    }
+    
+    return lines.join('\n');
+  }
+  
+  /**
+   * Inline code for a Markdown table cell
+   * Pipes (e.g., in "a || b" when clauses) would otherwise split the cell
+   */
+  private static markdownCode(text: string): string {
+    return `\`${text.replace(/\|/g, '\\|')}\``;
+  }
+  
+  /**
+   * Group bindings by command, args, disabled state and when clause
+   */
+  private static groupByIdentity(bindings: ParsedKeybinding[]): Map<string, ParsedKeybinding[]> {
+    const groups = new Map<string, ParsedKeybinding[]>();
+    
+    for (const binding of bindings) {
+      const identity = this.getIdentity(binding);
+      if (!groups.has(identity)) {
+        groups.set(identity, []);
+      }
+      groups.get(identity)!.push(binding);
+    }
+    
+    return groups;
+  }
+  
+  /**
+   * Group bindings by normalized key and when clause
+   */
+  private static groupBySlot(bindings: ParsedKeybinding[]): Map<string, ParsedKeybinding[]> {
+    const groups = new Map<string, ParsedKeybinding[]>();
+    
+    for (const binding of bindings) {
+      const slot = `${PrefixGraphBuilder.normalizeKeySequence(binding.key)}|${PrefixGraphBuilder.normalizeWhen(binding)}`;
+      if (!groups.has(slot)) {
+        groups.set(slot, []);
+      }
+      groups.get(slot)!.push(binding);
+    }
+    
+    return groups;
+  }
+  
+  /**
+   * Command, args and disabled state of a binding
+   */
+  private static getActionSignature(binding: ParsedKeybinding): string {
+    return `${binding.disabled ? '-' : ''}${KeybindingParser.getSignature(binding)}`;
+  }
+  
+  /**
+   * What a binding does, independent of its key
+   */
+  private static getIdentity(binding: ParsedKeybinding): string {
+    return `${this.getActionSignature(binding)}|${PrefixGraphBuilder.normalizeWhen(binding)}`;
+  }
+}
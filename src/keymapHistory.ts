@@ -0,0 +1,216 @@
+/**
+ * Keymap History Module
+ * 
+ * Keeps a bounded history of synced keybindings.json snapshots in the keymap store:
+ * - Records a snapshot whenever the synced content changes
+ * - Lists snapshots with timestamp, source path and content hash
+ * - Diffs two snapshots (or a snapshot and the current file)
+ * - Restores a snapshot to keybindings.json after confirmation
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as crypto from 'crypto';
+import { KeymapSnapshot, ParsedKeybinding } from './types';
+import { KeybindingParser } from './parser';
+import { KeymapDiffer } from './keymapDiff';
+import { KeybindingsFileEditor } from './keybindingsFileEditor';
+import { KeymapStore } from './keymapStore';
+
+export class KeymapHistory {
+  private static readonly DEFAULT_LIMIT = 20;
+  
+  constructor(private store: KeymapStore) {}
+  
+  /**
+   * Record a snapshot unless the file is unchanged since its last snapshot
+   */
+  async record(
+    filePath: string,
+    content: string,
+    editorName: string,
+    profileName: string | undefined,
+    bindingCount: number
+  ): Promise<void> {
+    const contentHash = KeymapHistory.hash(content);
+    const snapshots = this.list();
+    const previous = snapshots.find(s => s.filePath === filePath);
+    
+    if (previous && previous.contentHash === contentHash) {
+      return;
+    }
+    
+    const snapshot: KeymapSnapshot = {
+      timestamp: new Date().toISOString(),
+      filePath,
+      contentHash,
+      content,
+      editorName,
+      profileName,
+      bindingCount
+    };
+    
+    // Newest first, bounded
+    await this.store.saveHistory([snapshot, ...snapshots].slice(0, this.getLimit()));
+  }
+  
+  /**
+   * List snapshots, newest first
+   */
+  list(): KeymapSnapshot[] {
+    return this.store.getHistory();
+  }
+  
+  /**
+   * Show the history and act on the chosen snapshot
+   */
+  async showHistory(): Promise<void> {
+    const snapshots = this.list();
+    
+    if (snapshots.length === 0) {
+      vscode.window.showInformationMessage('ChordMap: No keymap history yet. Snapshots are recorded on each sync.');
+      return;
+    }
+    
+    const snapshot = await this.pickSnapshot(snapshots, 'Select a snapshot');
+    
+    if (!snapshot) {
+      return;
+    }
+    
+    const action = await vscode.window.showQuickPick(
+      [
+        { label: '$(diff) Compare with current file', id: 'current' },
+        { label: '$(history) Compare with another snapshot...', id: 'snapshot' },
+        { label: '$(discard) Restore to keybindings.json', id: 'restore' }
+      ],
+      { placeHolder: `${this.describe(snapshot)} · ${snapshot.contentHash}` }
+    );
+    
+    if (action?.id === 'current') {
+      await this.compareWithCurrent(snapshot);
+    } else if (action?.id === 'snapshot') {
+      const other = await this.pickSnapshot(snapshots.filter(s => s !== snapshot), 'Select the snapshot to compare with');
+      if (other) {
+        // Always diff from the older snapshot to the newer one
+        const [older, newer] = other.timestamp < snapshot.timestamp ? [other, snapshot] : [snapshot, other];
+        await this.openDiff(
+          `${this.describe(older)} → ${this.describe(newer)}`,
+          this.parse(older.content),
+          this.parse(newer.content)
+        );
+      }
+    } else if (action?.id === 'restore') {
+      await this.restore(snapshot);
+    }
+  }
+  
+  /**
+   * Diff a snapshot against the file it was taken from
+   */
+  private async compareWithCurrent(snapshot: KeymapSnapshot): Promise<void> {
+    let current: string;
+    
+    try {
+      current = await fs.readFile(snapshot.filePath, 'utf-8');
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to read ${snapshot.filePath}: ${error}`);
+      return;
+    }
+    
+    await this.openDiff(`${this.describe(snapshot)} → current file`, this.parse(snapshot.content), this.parse(current));
+  }
+  
+  /**
+   * Write a snapshot back to its keybindings.json after confirmation
+   */
+  private async restore(snapshot: KeymapSnapshot): Promise<void> {
+    const confirm = await vscode.window.showWarningMessage(
+      `Replace ${snapshot.filePath} with the snapshot from ${this.describe(snapshot)}?`,
+      { modal: true, detail: 'The current content is kept in the history, and the edit can be undone in the editor.' },
+      'Restore'
+    );
+    
+    if (confirm !== 'Restore') {
+      return;
+    }
+    
+    try {
+      // Keep what is being replaced so the restore itself can be rolled back
+      const current = await fs.readFile(snapshot.filePath, 'utf-8').catch(() => undefined);
+      if (current !== undefined) {
+        await this.record(
+          snapshot.filePath,
+          current,
+          snapshot.editorName,
+          snapshot.profileName,
+          this.parse(current).length
+        );
+      }
+      
+      const unsaved = await KeybindingsFileEditor.apply(snapshot.filePath, () => snapshot.content);
+      const note = unsaved !== undefined ? ' (the file has unsaved changes)' : '';
+      vscode.window.showInformationMessage(`ChordMap: Restored keybindings from ${this.describe(snapshot)}${note}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to restore snapshot: ${error}`);
+    }
+  }
+  
+  /**
+   * Open a structured diff report
+   */
+  private async openDiff(title: string, before: ParsedKeybinding[], after: ParsedKeybinding[]): Promise<void> {
+    const changes = KeymapDiffer.changes(before, after);
+    const document = await vscode.workspace.openTextDocument({
+      language: 'markdown',
+      content: KeymapDiffer.changesToMarkdown(title, changes)
+    });
+    await vscode.window.showTextDocument(document, { preview: true });
+  }
+  
+  /**
+   * Quick pick over snapshots
+   */
+  private async pickSnapshot(snapshots: KeymapSnapshot[], placeHolder: string): Promise<KeymapSnapshot | undefined> {
+    const picked = await vscode.window.showQuickPick(
+      snapshots.map(snapshot => ({
+        label: this.describe(snapshot),
+        description: [snapshot.profileName, snapshot.contentHash].filter(Boolean).join(' · '),
+        detail: `${snapshot.filePath} · ${snapshot.bindingCount} bindings`,
+        snapshot
+      })),
+      { placeHolder, matchOnDescription: true, matchOnDetail: true }
+    );
+    
+    return picked?.snapshot;
+  }
+  
+  /**
+   * Parse snapshot content (user entries only; syntax errors yield nothing)
+   */
+  private parse(content: string): ParsedKeybinding[] {
+    return KeybindingParser.parseKeybindingsDocument(content, 'history').bindings;
+  }
+  
+  /**
+   * Human-readable snapshot label
+   */
+  private describe(snapshot: KeymapSnapshot): string {
+    return new Date(snapshot.timestamp).toLocaleString();
+  }
+  
+  /**
+   * Maximum number of snapshots to keep
+   */
+  private getLimit(): number {
+    const limit = vscode.workspace.getConfiguration('chordMap').get<number>('historyLimit', KeymapHistory.DEFAULT_LIMIT);
+    return Math.max(1, limit);
+  }
+  
+  /**
+   * Short content hash used to spot identical snapshots
+   */
+  static hash(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex').slice(0, 12);
+  }
+}
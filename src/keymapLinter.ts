@@ -0,0 +1,204 @@
+/**
+ * Keymap Linter Module
+ * 
+ * Finds entries in the user's keybindings.json that do nothing useful:
+ * - Exact duplicates of an earlier entry
+ * - "-command" entries that remove no binding (only for commands that have a default or extension binding)
+ * - Bindings to commands that are no longer registered (e.g., uninstalled extensions)
+ * - Entries replaced by a later entry for the same key and context
+ * Each rule has a default severity that the chordMap.lintRules setting can change or turn off.
+ */
+
+import { KeybindingProblem, LintGroup, LintRuleId, LintSeverity, ParsedKeybinding } from './types';
+import { KeybindingParser } from './parser';
+import { PrefixGraphBuilder } from './prefixGraph';
+import { CommandChainExpander } from './commandChain';
+
+/**
+ * A lint rule and how it is shown
+ */
+interface LintRule {
+  id: LintRuleId;
+  
+  /** Short name for the tree and settings (e.g., "Duplicate entries") */
+  title: string;
+  
+  defaultSeverity: LintSeverity;
+}
+
+const RULES: LintRule[] = [
+  { id: 'duplicateEntry', title: 'Duplicate entries', defaultSeverity: 'warning' },
+  { id: 'ineffectiveRemoval', title: 'Removals that remove nothing', defaultSeverity: 'warning' },
+  // An extension may only be disabled in this workspace, so this is less certain
+  { id: 'unknownCommand', title: 'Unknown commands', defaultSeverity: 'info' },
+  { id: 'overriddenEntry', title: 'Overridden entries', defaultSeverity: 'warning' }
+];
+
+export class KeymapLinter {
+  
+  /**
+   * Lint the effective keymap and populate lintFindings on user entries
+   * `isKnownCommand` tells whether a command is registered or contributed by an installed extension
+   */
+  static lint(
+    bindings: ParsedKeybinding[],
+    isKnownCommand: (command: string) => boolean,
+    severities: Partial<Record<LintRuleId, LintSeverity>> = {}
+  ): void {
+    const resolve = (rule: LintRule): LintSeverity => severities[rule.id] || rule.defaultSeverity;
+    const user = bindings.filter(b => b.origin === 'user');
+    
+    for (const binding of bindings) {
+      delete binding.lintFindings;
+    }
+    
+    const report = (binding: ParsedKeybinding, rule: LintRuleId, message: string) => {
+      const severity = resolve(this.getRule(rule));
+      if (severity === 'off') {
+        return;
+      }
+      binding.lintFindings = [...(binding.lintFindings || []), { rule, severity, message }];
+    };
+    
+    // Later copies are reported once, as duplicates, rather than by every rule
+    const duplicates = this.findDuplicates(user);
+    for (const [binding, original] of duplicates) {
+      report(binding, 'duplicateEntry', `Duplicate of an earlier entry (${this.describe(original)})`);
+    }
+    
+    const candidates = user.filter(b => !duplicates.has(b));
+    
+    // A removal of a command without any default or extension binding may target one the
+    // default snapshot lacks, or an extension that isn't installed here, so it isn't reported
+    const defaultCommands = new Set(bindings.filter(b => b.origin !== 'user').map(b => b.command));
+    
+    for (const removal of this.findIneffectiveRemovals(candidates, defaultCommands)) {
+      report(removal, 'ineffectiveRemoval', `"-${removal.command}" removes no binding${removal.key ? ` on ${removal.key}` : ''}`);
+    }
+    
+    // A stale "-command" entry is already reported as removing nothing
+    for (const binding of candidates.filter(b => !b.disabled)) {
+      const unknown = this.getCommands(binding).filter(command => !isKnownCommand(command));
+      if (unknown.length > 0) {
+        report(binding, 'unknownCommand', `Unknown command${unknown.length !== 1 ? 's' : ''}: ${unknown.join(', ')}`);
+      }
+    }
+    
+    for (const [binding, winner] of this.findOverridden(candidates)) {
+      report(binding, 'overriddenEntry', `Never fires: a later entry for the same key and context wins (${this.describe(winner)})`);
+    }
+  }
+  
+  /**
+   * Bindings with lint findings
+   */
+  static getFlagged(bindings: ParsedKeybinding[]): ParsedKeybinding[] {
+    return bindings.filter(b => b.lintFindings && b.lintFindings.length > 0);
+  }
+  
+  /**
+   * Flagged bindings grouped by rule, in rule order
+   */
+  static groupByRule(bindings: ParsedKeybinding[]): LintGroup[] {
+    return RULES
+      .map(rule => ({
+        rule: rule.id,
+        title: rule.title,
+        bindings: bindings.filter(b => b.lintFindings?.some(finding => finding.rule === rule.id))
+      }))
+      .filter(group => group.bindings.length > 0);
+  }
+  
+  /**
+   * Convert findings to keybindings.json problems (entries without a location are skipped)
+   */
+  static toProblems(bindings: ParsedKeybinding[]): KeybindingProblem[] {
+    return this.getFlagged(bindings)
+      .filter(b => b.range)
+      .flatMap(b => b.lintFindings!.map(finding => ({
+        message: finding.message,
+        severity: finding.severity,
+        range: b.range!,
+        code: finding.rule
+      })));
+  }
+  
+  /**
+   * Look up a rule by id
+   */
+  private static getRule(id: LintRuleId): LintRule {
+    return RULES.find(rule => rule.id === id)!;
+  }
+  
+  /**
+   * Map each later copy of an entry to the first one (same key, command, args and when clause)
+   */
+  private static findDuplicates(user: ParsedKeybinding[]): Map<ParsedKeybinding, ParsedKeybinding> {
+    const first = new Map<string, ParsedKeybinding>();
+    const duplicates = new Map<ParsedKeybinding, ParsedKeybinding>();
+    
+    for (const binding of user) {
+      const id = `${PrefixGraphBuilder.normalizeKeySequence(binding.key)}|${binding.disabled ? '-' : ''}` +
+        `${KeybindingParser.getSignature(binding)}|${PrefixGraphBuilder.normalizeWhen(binding)}`;
+      const original = first.get(id);
+      
+      if (original) {
+        duplicates.set(binding, original);
+      } else {
+        first.set(id, binding);
+      }
+    }
+    
+    return duplicates;
+  }
+  
+  /**
+   * Removal entries left over after merging
+   * Removals that match a default or extension binding are merged into it, and VS Code
+   * never applies removals to user entries, so what is left removes nothing
+   * Only removals of commands in `defaultCommands` are considered
+   */
+  private static findIneffectiveRemovals(user: ParsedKeybinding[], defaultCommands: Set<string>): ParsedKeybinding[] {
+    return user.filter(binding => binding.disabled && defaultCommands.has(binding.command));
+  }
+  
+  /**
+   * Map each enabled entry to a later one for the same key that always takes precedence
+   * A later entry wins when its when clause is the same or absent
+   */
+  private static findOverridden(user: ParsedKeybinding[]): Map<ParsedKeybinding, ParsedKeybinding> {
+    const enabled = user.filter(b => !b.disabled && b.key);
+    const overridden = new Map<ParsedKeybinding, ParsedKeybinding>();
+    
+    enabled.forEach((binding, index) => {
+      const key = PrefixGraphBuilder.normalizeKeySequence(binding.key);
+      const when = PrefixGraphBuilder.normalizeWhen(binding);
+      
+      for (let i = enabled.length - 1; i > index; i--) {
+        const later = enabled[i];
+        const laterWhen = PrefixGraphBuilder.normalizeWhen(later);
+        
+        if (PrefixGraphBuilder.normalizeKeySequence(later.key) === key && (!laterWhen || laterWhen === when)) {
+          overridden.set(binding, later);
+          break;
+        }
+      }
+    });
+    
+    return overridden;
+  }
+  
+  /**
+   * The command and, for chain commands, every command it runs
+   */
+  private static getCommands(binding: ParsedKeybinding): string[] {
+    return Array.from(new Set([binding.command, ...CommandChainExpander.flatten(binding.chain).map(step => step.command)]));
+  }
+  
+  /**
+   * Short description of an entry for messages
+   */
+  private static describe(binding: ParsedKeybinding): string {
+    return `${binding.key} → ${binding.disabled ? '-' : ''}${binding.command}`;
+  }
+}
@@ -0,0 +1,395 @@
+/**
+ * Keymap Store Module
+ * 
+ * Persists synced keymaps under the extension's global storage folder:
+ * - Versioned on-disk format (keymap.json) written atomically, one write at a time
+ * - Migrations keyed by schemaVersion, starting from the globalState layout (version 1)
+ * - Integrity checks that repair or drop bindings that don't match ParsedKeybinding
+ * - Recovery from unreadable files (kept aside as a backup)
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { KeybindingOrigin, KeymapSnapshot, NamedKeymap, ParsedKeybinding, StoredKeymapData, SyncMetadata } from './types';
+import { WhenClauseParser } from './whenClause';
+import { CommandChainExpander } from './commandChain';
+
+/** Upgrades stored data from one schema version to the next */
+type Migration = (data: any) => any;
+
+/**
+ * Migrations keyed by the version they upgrade from
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // 1 → 2: from globalState. Bindings predate merged defaults, so every stored binding
+  // came from the user file; editor keymaps, tags and history start empty
+  1: data => ({
+    ...data,
+    bindings: Array.isArray(data.bindings)
+      ? data.bindings.map((b: any) => (b && typeof b === 'object' && !b.origin ? { ...b, origin: 'user' } : b))
+      : [],
+    editorKeymaps: {},
+    tags: {},
+    history: []
+  })
+};
+
+const ORIGINS: KeybindingOrigin[] = ['default', 'extension', 'user', 'removed'];
+
+export class KeymapStore {
+  static readonly SCHEMA_VERSION = 2;
+  
+  private static readonly FILE_NAME = 'keymap.json';
+  private static readonly LEGACY_KEY_BINDINGS = 'chordmap.bindings';
+  private static readonly LEGACY_KEY_METADATA = 'chordmap.syncMetadata';
+  
+  private data: StoredKeymapData = KeymapStore.createEmpty();
+  
+  /** Pending write; writes are chained so they never overlap */
+  private writing: Promise<void> = Promise.resolve();
+  
+  constructor(private context: vscode.ExtensionContext) {}
+  
+  /**
+   * Load (and if needed migrate or repair) the stored keymap
+   * Returns true when the stored data was upgraded or damaged, so it should be re-synced
+   */
+  async load(): Promise<boolean> {
+    let raw: any;
+    let needsResync = false;
+    
+    try {
+      raw = JSON.parse(await fs.readFile(this.getFilePath(), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        raw = this.readLegacy();
+      } else {
+        await this.backUp('unreadable');
+        console.error('ChordMap: Stored keymap is unreadable, starting over:', error);
+        raw = undefined;
+        needsResync = true;
+      }
+    }
+    
+    if (!raw || typeof raw !== 'object') {
+      this.data = KeymapStore.createEmpty();
+      return needsResync;
+    }
+    
+    let version = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 1;
+    
+    if (version > KeymapStore.SCHEMA_VERSION) {
+      // Written by a newer ChordMap; don't guess at its format
+      await this.backUp(`v${version}`);
+      this.data = KeymapStore.createEmpty();
+      return true;
+    }
+    
+    while (version < KeymapStore.SCHEMA_VERSION) {
+      const migrate = MIGRATIONS[version];
+      if (!migrate) {
+        throw new Error(`No migration from keymap schema version ${version}`);
+      }
+      raw = migrate(raw);
+      version++;
+      needsResync = true;
+    }
+    
+    const { data, repaired } = this.validate(raw);
+    this.data = data;
+    
+    if (needsResync || repaired) {
+      await this.write();
+      await this.clearLegacy();
+    }
+    
+    return needsResync || repaired;
+  }
+  
+  /**
+   * Bindings of the main keymap
+   */
+  getBindings(): ParsedKeybinding[] {
+    return this.data.bindings;
+  }
+  
+  /**
+   * Metadata of the main keymap
+   */
+  getMetadata(): SyncMetadata | undefined {
+    return this.data.metadata;
+  }
+  
+  /**
+   * Keymaps synced from other editors, by editor name
+   */
+  getEditorKeymaps(): Record<string, NamedKeymap> {
+    return this.data.editorKeymaps;
+  }
+  
+  /**
+   * Tags by binding id
+   */
+  getTags(): Record<string, string[]> {
+    return this.data.tags;
+  }
+  
+  /**
+   * Keymap history, newest first
+   */
+  getHistory(): KeymapSnapshot[] {
+    return this.data.history;
+  }
+  
+  /**
+   * Replace the main keymap
+   */
+  async saveKeymap(bindings: ParsedKeybinding[], metadata: SyncMetadata): Promise<void> {
+    this.data = { ...this.data, bindings, metadata };
+    await this.write();
+  }
+  
+  /**
+   * Add or replace a named editor keymap
+   */
+  async saveEditorKeymap(keymap: NamedKeymap): Promise<void> {
+    this.data = { ...this.data, editorKeymaps: { ...this.data.editorKeymaps, [keymap.name]: keymap } };
+    await this.write();
+  }
+  
+  /**
+   * Replace all binding tags
+   */
+  async saveTags(tags: Record<string, string[]>): Promise<void> {
+    this.data = { ...this.data, tags };
+    await this.write();
+  }
+  
+  /**
+   * Replace the keymap history
+   */
+  async saveHistory(history: KeymapSnapshot[]): Promise<void> {
+    this.data = { ...this.data, history };
+    await this.write();
+  }
+  
+  /**
+   * Check stored data against the current types, repairing what can be derived
+   */
+  private validate(raw: any): { data: StoredKeymapData; repaired: boolean } {
+    let repaired = false;
+    
+    const repairList = (list: unknown, sourceEditor: string): ParsedKeybinding[] => {
+      if (!Array.isArray(list)) {
+        repaired = true;
+        return [];
+      }
+      
+      const bindings: ParsedKeybinding[] = [];
+      for (const item of list) {
+        const result = KeymapStore.repairBinding(item, sourceEditor);
+        if (result.repaired) {
+          repaired = true;
+        }
+        if (result.binding) {
+          bindings.push(result.binding);
+        }
+      }
+      return bindings;
+    };
+    
+    const metadata = KeymapStore.isMetadata(raw.metadata) ? raw.metadata as SyncMetadata : undefined;
+    if (raw.metadata !== undefined && !metadata) {
+      repaired = true;
+    }
+    
+    const editorKeymaps: Record<string, NamedKeymap> = {};
+    if (raw.editorKeymaps && typeof raw.editorKeymaps === 'object') {
+      for (const [name, keymap] of Object.entries<any>(raw.editorKeymaps)) {
+        if (!keymap || !KeymapStore.isMetadata(keymap.metadata)) {
+          repaired = true;
+          continue;
+        }
+        editorKeymaps[name] = {
+          name,
+          metadata: { ...keymap.metadata, schemaVersion: KeymapStore.SCHEMA_VERSION },
+          bindings: repairList(keymap.bindings, name)
+        };
+      }
+    }
+    
+    const tags: Record<string, string[]> = {};
+    if (raw.tags && typeof raw.tags === 'object') {
+      for (const [id, list] of Object.entries<unknown>(raw.tags)) {
+        if (Array.isArray(list) && list.every(tag => typeof tag === 'string')) {
+          tags[id] = list;
+        } else {
+          repaired = true;
+        }
+      }
+    } else {
+      repaired = true;
+    }
+    
+    const history = Array.isArray(raw.history) ? raw.history.filter(KeymapStore.isSnapshot) : [];
+    if (!Array.isArray(raw.history) || history.length !== raw.history.length) {
+      repaired = true;
+    }
+    
+    return {
+      data: {
+        schemaVersion: KeymapStore.SCHEMA_VERSION,
+        metadata: metadata && { ...metadata, schemaVersion: KeymapStore.SCHEMA_VERSION },
+        bindings: repairList(raw.bindings, metadata?.editorName || 'VS Code'),
+        editorKeymaps,
+        tags,
+        history
+      },
+      repaired
+    };
+  }
+  
+  /**
+   * Fill in fields that can be derived from key, command, when and args
+   * Entries without a key and command are dropped
+   */
+  private static repairBinding(item: any, sourceEditor: string): { binding?: ParsedKeybinding; repaired: boolean } {
+    if (!item || typeof item !== 'object' || typeof item.key !== 'string' || typeof item.command !== 'string') {
+      return { repaired: true };
+    }
+    
+    const binding = { ...item } as ParsedKeybinding;
+    let repaired = false;
+    
+    if (binding.command.startsWith('-')) {
+      binding.command = binding.command.slice(1);
+      binding.disabled = true;
+      repaired = true;
+    }
+    if (typeof binding.disabled !== 'boolean') {
+      binding.disabled = false;
+      repaired = true;
+    }
+    if (!ORIGINS.includes(binding.origin)) {
+      binding.origin = 'user';
+      repaired = true;
+    }
+    if (typeof binding.sourceEditor !== 'string') {
+      binding.sourceEditor = sourceEditor;
+      repaired = true;
+    }
+    if (typeof binding.isMultiChord !== 'boolean') {
+      binding.isMultiChord = binding.key.trim().split(/\s+/).length > 1;
+      repaired = true;
+    }
+    if (binding.when !== undefined && typeof binding.when !== 'string') {
+      delete binding.when;
+      delete binding.whenAst;
+      repaired = true;
+    }
+    if (binding.when && !binding.whenAst) {
+      binding.whenAst = WhenClauseParser.tryParse(binding.when);
+    }
+    if (binding.args !== undefined && !binding.chain) {
+      binding.chain = CommandChainExpander.expand(binding.command, binding.args);
+    }
+    
+    return { binding, repaired };
+  }
+  
+  /**
+   * Whether a value has the required SyncMetadata fields
+   */
+  private static isMetadata(value: any): boolean {
+    return !!value && typeof value === 'object' &&
+      typeof value.lastSync === 'string' &&
+      typeof value.editorName === 'string' &&
+      typeof value.filePath === 'string';
+  }
+  
+  /**
+   * Whether a value has the required KeymapSnapshot fields
+   */
+  private static isSnapshot(value: any): value is KeymapSnapshot {
+    return !!value && typeof value === 'object' &&
+      typeof value.timestamp === 'string' &&
+      typeof value.filePath === 'string' &&
+      typeof value.contentHash === 'string' &&
+      typeof value.content === 'string' &&
+      typeof value.editorName === 'string' &&
+      typeof value.bindingCount === 'number';
+  }
+  
+  /**
+   * Read data stored in globalState by versions before the on-disk store
+   */
+  private readLegacy(): any {
+    const state = this.context.globalState;
+    const bindings = state.get<unknown[]>(KeymapStore.LEGACY_KEY_BINDINGS);
+    const metadata = state.get<SyncMetadata>(KeymapStore.LEGACY_KEY_METADATA);
+    
+    if (!bindings && !metadata) {
+      return undefined;
+    }
+    
+    return { schemaVersion: 1, metadata, bindings: bindings || [] };
+  }
+  
+  /**
+   * Drop the globalState copy once it lives on disk
+   */
+  private async clearLegacy(): Promise<void> {
+    const state = this.context.globalState;
+    await state.update(KeymapStore.LEGACY_KEY_BINDINGS, undefined);
+    await state.update(KeymapStore.LEGACY_KEY_METADATA, undefined);
+  }
+  
+  /**
+   * Queue a write after any pending one, so overlapping saves can't clobber the temporary file
+   */
+  private write(): Promise<void> {
+    const next = this.writing.then(() => this.writeFile());
+    this.writing = next.catch(() => undefined);
+    return next;
+  }
+  
+  /**
+   * Write through a temporary file so a crash never leaves a half-written store
+   */
+  private async writeFile(): Promise<void> {
+    const filePath = this.getFilePath();
+    const tempPath = `${filePath}.tmp`;
+    
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(this.data), 'utf-8');
+    await fs.rename(tempPath, filePath);
+  }
+  
+  /**
+   * Keep a copy of a file that can't be loaded (e.g., keymap.unreadable.json)
+   */
+  private async backUp(reason: string): Promise<void> {
+    const filePath = this.getFilePath();
+    
+    try {
+      await fs.copyFile(filePath, filePath.replace(/\.json$/, `.${reason}.json`));
+    } catch (error) {
+      console.error('ChordMap: Could not back up stored keymap:', error);
+    }
+  }
+  
+  /**
+   * Path of the store file in global storage
+   */
+  private getFilePath(): string {
+    return path.join(this.context.globalStorageUri.fsPath, KeymapStore.FILE_NAME);
+  }
+  
+  /**
+   * Store contents before the first sync
+   */
+  private static createEmpty(): StoredKeymapData {
+    return { schemaVersion: KeymapStore.SCHEMA_VERSION, bindings: [], editorKeymaps: {}, tags: {}, history: [] };
+  }
+}
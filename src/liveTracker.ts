@@ -9,6 +9,8 @@ import * as vscode from 'vscode';
 import { ParsedKeybinding, PrefixNode } from './types';
 import { KeybindingParser } from './parser';
 import { PrefixGraphBuilder } from './prefixGraph';
+import { CanonicalChords } from './canonicalChord';
+import { getChordCaptureScript } from './chordCapture';
 
 export class LiveChordTracker implements vscode.WebviewViewProvider {
   private isActive = false;
@@ -258,7 +260,7 @@ export class LiveChordTracker implements vscode.WebviewViewProvider {
     const capture = document.getElementById('capture');
     const display = document.getElementById('display');
     const useSymbols = ${useSymbols};
-    const isMac = navigator.userAgent.includes('Mac');
+    ${getChordCaptureScript()}
     let sequence = [];
     let resetTimer = null;
     
@@ -280,26 +282,10 @@ export class LiveChordTracker implements vscode.WebviewViewProvider {
         resetTimer = null;
       }
       
-      const mods = [];
-      if (e.metaKey) mods.push('cmd');
-      if (e.ctrlKey) mods.push('ctrl');
-      if (e.altKey) mods.push(isMac ? 'opt' : 'alt');
-      if (e.shiftKey) mods.push('shift');
-      
-      const keyMap = {
-        keya:'a',keyb:'b',keyc:'c',keyd:'d',keye:'e',keyf:'f',keyg:'g',keyh:'h',keyi:'i',keyj:'j',keyk:'k',keyl:'l',keym:'m',keyn:'n',keyo:'o',keyp:'p',keyq:'q',keyr:'r',keys:'s',keyt:'t',keyu:'u',keyv:'v',keyw:'w',keyx:'x',keyy:'y',keyz:'z',
-        digit0:'0',digit1:'1',digit2:'2',digit3:'3',digit4:'4',digit5:'5',digit6:'6',digit7:'7',digit8:'8',digit9:'9',
-        space:'space',minus:'-',equal:'=',bracketleft:'[',bracketright:']',backslash:'\\\\',semicolon:';',quote:"'",comma:',',period:'.',slash:'/',backquote:'\`',
-        arrowup:'up',arrowdown:'down',arrowleft:'left',arrowright:'right',
-        escape:'escape',enter:'enter',tab:'tab',backspace:'backspace',delete:'delete',
-        home:'home',end:'end',pageup:'pageup',pagedown:'pagedown',
-        f1:'f1',f2:'f2',f3:'f3',f4:'f4',f5:'f5',f6:'f6',f7:'f7',f8:'f8',f9:'f9',f10:'f10',f11:'f11',f12:'f12'
-      };
-      
-      let key = keyMap[e.code.toLowerCase()] || e.key.toLowerCase();
-      
-      if (['control','meta','alt','shift'].some(m => key.includes(m))) return;
+      const captured = readChord(e);
+      if (!captured) return;
       
+      const { mods, key } = captured;
       const isSingleLetter = /^[a-z]$/.test(key);
       const hasOnlyShift = e.shiftKey && !e.metaKey && !e.ctrlKey && !e.altKey;
       
@@ -373,32 +359,14 @@ export class LiveChordTracker implements vscode.WebviewViewProvider {
       return bindings;
     }
     
-    // Normalize 'opt' to 'option' to match parser's format
-    // The webview sends 'opt' on macOS but the parser uses 'option'
-    const normalizedSequence = this.currentChordSequence.map(chord => 
-      chord.replace(/\bopt\b/g, 'option')
-    );
-    
     // Join current sequence with space
-    const currentSequenceStr = normalizedSequence.join(' ').toLowerCase();
+    // The webview records ⌥ as 'opt' and the Windows key as 'cmd'; both are aliases
+    const currentSequenceStr = this.currentChordSequence.join(' ');
     
-    return bindings.filter(binding => {
-      const bindingKey = binding.key.toLowerCase();
-      
-      // Check if binding starts with current sequence
-      // Handle both exact match and prefix match (for multi-step chords)
-      if (bindingKey === currentSequenceStr) {
-        return true; // Exact match
-      }
-      
-      // Check if binding is a multi-step chord that starts with current sequence
-      // e.g., current: "cmd+option+g", binding: "cmd+option+g s" should match
-      if (bindingKey.startsWith(currentSequenceStr + ' ')) {
-        return true; // Multi-step chord prefix match
-      }
-      
-      return false;
-    });
+    // Compare canonical chords so equivalent modifiers match
+    // Handles both exact match and prefix match (for multi-step chords)
+    // e.g., current: "cmd+opt+g", binding: "meta+alt+g s" should match
+    return bindings.filter(binding => CanonicalChords.startsWith(binding.key, currentSequenceStr));
   }
   
   /**
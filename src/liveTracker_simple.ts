@@ -8,6 +8,7 @@
 
 import * as vscode from 'vscode';
 import { ParsedKeybinding } from './types';
+import { CanonicalChords } from './canonicalChord';
 
 export class LiveChordTracker {
   private isActive = false;
@@ -190,12 +191,9 @@ export class LiveChordTracker {
       return bindings;
     }
     
-    const currentSequenceStr = this.currentChordSequence.join(' ').toLowerCase();
+    const currentSequenceStr = this.currentChordSequence.join(' ');
     
-    return bindings.filter(binding => {
-      const bindingKey = binding.key.toLowerCase();
-      return bindingKey.startsWith(currentSequenceStr);
-    });
+    return bindings.filter(binding => CanonicalChords.startsWith(binding.key, currentSequenceStr));
   }
   
   /**
@@ -6,22 +6,62 @@
  * - Multi-chord sequences (e.g., "cmd+k left")
  * - Disabled bindings (command starts with "-")
  * - Platform-specific modifier normalization
- * - Validation and error handling
+ * - When clause parsing
+ * - Command arguments (preserved and summarized)
+ * - runCommands-style chains (expanded from args)
+ * - Validation and error handling (with source offsets for diagnostics)
+ * - Key token validation against VS Code's key vocabulary
  */
 
 import * as jsonc from 'jsonc-parser';
-import { ParsedKeybinding, KeyChord, ValidationResult } from './types';
+import {
+  ParsedKeybinding,
+  KeyChord,
+  KeybindingOrigin,
+  KeybindingParseResult,
+  KeybindingProblem,
+  SourceRange,
+  ValidationResult
+} from './types';
+import { WhenClauseParser } from './whenClause';
+import { KeyVocabulary } from './keyVocabulary';
+import { CanonicalChords, TargetPlatform } from './canonicalChord';
+import { CommandChainExpander } from './commandChain';
 
 export class KeybindingParser {
-  
   /**
    * Parse keybindings.json file content
+   * Throws on critical syntax errors
    */
-  static parseKeybindingsFile(content: string, sourceEditor: string): ParsedKeybinding[] {
+  static parseKeybindingsFile(
+    content: string,
+    sourceEditor: string,
+    origin: KeybindingOrigin = 'user'
+  ): ParsedKeybinding[] {
+    const result = this.parseKeybindingsDocument(content, sourceEditor, origin);
+    
+    if (result.hasSyntaxErrors) {
+      const syntaxErrors = result.problems.filter(p => p.code === 'syntax');
+      throw new Error(`Failed to parse keybindings.json: ${syntaxErrors.map(p => p.message).join(', ')}`);
+    }
+    
+    return result.bindings;
+  }
+  
+  /**
+   * Parse keybindings.json content, collecting problems with source locations
+   * instead of throwing. Each parsed binding records its range in the file.
+   */
+  static parseKeybindingsDocument(
+    content: string,
+    sourceEditor: string,
+    origin: KeybindingOrigin = 'user'
+  ): KeybindingParseResult {
     const errors: jsonc.ParseError[] = [];
-    const rawBindings = jsonc.parse(content, errors);
+    const root = jsonc.parseTree(content, errors);
+    const problems: KeybindingProblem[] = [];
     
-    // Only throw on critical parse errors (not on JSONC features like trailing commas/comments)
+    // Only report critical parse errors (not JSONC features like trailing commas/comments)
     // Error codes that are acceptable in JSONC:
     // - 3 (PropertyNameExpected): trailing comma
     // - 4 (ValueExpected): trailing comma
@@ -30,19 +70,117 @@ export class KeybindingParser {
       e.error !== 4    // ValueExpected (trailing comma)
     );
     
-    if (criticalErrors.length > 0) {
-      throw new Error(`Failed to parse keybindings.json: ${criticalErrors.map(e => jsonc.printParseErrorCode(e.error)).join(', ')}`);
+    for (const error of criticalErrors) {
+      problems.push({
+        message: jsonc.printParseErrorCode(error.error),
+        severity: 'error',
+        range: { offset: error.offset, length: Math.max(error.length, 1) },
+        code: 'syntax'
+      });
     }
     
-    if (!Array.isArray(rawBindings)) {
-      throw new Error('keybindings.json must contain an array');
+    const hasSyntaxErrors = criticalErrors.length > 0;
+    
+    if (!root || root.type !== 'array') {
+      problems.push({
+        message: 'keybindings.json must contain an array',
+        severity: 'error',
+        range: { offset: root ? root.offset : 0, length: root ? root.length : 1 },
+        code: 'syntax'
+      });
+      return { bindings: [], problems, skipped: 0, hasSyntaxErrors: true };
     }
     
+    const bindings: ParsedKeybinding[] = [];
+    let skipped = 0;
+    
+    for (const node of root.children || []) {
+      const entryRange = { offset: node.offset, length: node.length };
+      
+      if (node.type !== 'object') {
+        problems.push({
+          message: 'Keybinding entry must be an object',
+          severity: 'error',
+          range: entryRange,
+          code: 'invalidEntry'
+        });
+        skipped++;
+        continue;
+      }
+      
+      const raw = jsonc.getNodeValue(node);
+      const validation = this.validateBinding(raw);
+      
+      for (const message of validation.errors) {
+        problems.push({ message, severity: 'error', range: this.locateProblem(node, message), code: 'invalidEntry' });
+      }
+      
+      for (const message of validation.warnings) {
+        problems.push({ message, severity: 'warning', range: this.locateProblem(node, message), code: 'invalidValue' });
+      }
+      
+      if (!validation.valid) {
+        skipped++;
+        continue;
+      }
+      
+      const binding = this.parseBinding(raw, sourceEditor, origin);
+      
+      if (!binding) {
+        skipped++;
+        continue;
+      }
+      
+      binding.range = entryRange;
+      bindings.push(binding);
+    }
+    
+    return { bindings, problems, skipped, hasSyntaxErrors };
+  }
+  
+  /**
+   * Narrow a validation message to the property it is about
+   * Falls back to the whole entry (e.g., for missing fields)
+   */
+  private static locateProblem(entry: jsonc.Node, message: string): SourceRange {
+    let property: string | undefined;
+    
+    // Missing fields have nothing narrower to point at
+    if (/^Missing "/.test(message)) {
+      return { offset: entry.offset, length: entry.length };
+    }
+    
+    if (/when/i.test(message)) {
+      property = 'when';
+    } else if (/"command"/.test(message)) {
+      property = 'command';
+    } else if (/key|modifier|chord/i.test(message)) {
+      property = 'key';
+    }
+    
+    const valueNode = property ? jsonc.findNodeAtLocation(entry, [property]) : undefined;
+    
+    if (valueNode) {
+      return { offset: valueNode.offset, length: valueNode.length };
+    }
+    
+    return { offset: entry.offset, length: entry.length };
+  }
+  
+  /**
+   * Parse an array of raw binding entries
+   * Malformed entries are skipped
+   */
+  static parseBindings(
+    rawBindings: any[],
+    sourceEditor: string,
+    origin: KeybindingOrigin = 'user'
+  ): ParsedKeybinding[] {
     const parsed: ParsedKeybinding[] = [];
     
     for (const binding of rawBindings) {
       try {
-        const result = this.parseBinding(binding, sourceEditor);
+        const result = this.parseBinding(binding, sourceEditor, origin);
         if (result) {
           parsed.push(result);
         }
@@ -58,7 +196,11 @@ export class KeybindingParser {
   /**
    * Parse a single binding entry
    */
-  private static parseBinding(raw: any, sourceEditor: string): ParsedKeybinding | null {
+  private static parseBinding(
+    raw: any,
+    sourceEditor: string,
+    origin: KeybindingOrigin = 'user'
+  ): ParsedKeybinding | null {
     if (!raw || typeof raw !== 'object') {
       return null;
     }
@@ -82,14 +224,25 @@ export class KeybindingParser {
     // Derive category from command
     const category = this.deriveCategory(actualCommand);
     
+    // Parse when clause (left undefined if malformed)
+    const whenAst = typeof raw.when === 'string' ? WhenClauseParser.tryParse(raw.when) : undefined;
+    
+    // Unknown key tokens mean VS Code will never dispatch this binding
+    const keyProblems = KeyVocabulary.validateKeySequence(key);
+    
     return {
       key,
       command: actualCommand,
       when: raw.when,
+      whenAst,
+      args: raw.args,
+      chain: CommandChainExpander.expand(actualCommand, raw.args),
       disabled,
       sourceEditor,
+      origin,
       isMultiChord,
       category,
+      keyProblems: keyProblems.length > 0 ? keyProblems : undefined,
       conflictsWith: [] // Will be populated by conflict detection
     };
   }
@@ -112,16 +265,13 @@ export class KeybindingParser {
   static parseChord(chord: string): KeyChord {
     const parts = chord.toLowerCase().split('+');
     
-    // Known modifiers
-    const modifierSet = new Set(['cmd', 'ctrl', 'shift', 'alt', 'option', 'meta']);
-    
     const modifiers: string[] = [];
     let key = '';
     
     for (let i = 0; i < parts.length; i++) {
       const part = parts[i];
       
-      if (modifierSet.has(part) && i < parts.length - 1) {
+      if (KeyVocabulary.isModifier(part) && i < parts.length - 1) {
         modifiers.push(part);
       } else {
         // Last part or non-modifier is the key
@@ -138,51 +288,88 @@ export class KeybindingParser {
   
   /**
    * Normalize modifiers for cross-platform display
-   * macOS: cmd → ⌘, option → ⌥, ctrl → ⌃, shift → ⇧
-   * Windows/Linux: Use text labels
+   * macOS: ⌃⌥⇧⌘K, Windows: Ctrl+Shift+Alt+Win+K, Linux: Ctrl+Shift+Alt+Super+K
    */
-  static normalizeChordForDisplay(chord: KeyChord, platform: 'darwin' | 'win32' | 'linux'): string {
-    if (platform === 'darwin') {
-      const modifierMap: Record<string, string> = {
-        'cmd': '⌘',
-        'ctrl': '⌃',
-        'alt': '⌥',
-        'option': '⌥',
-        'shift': '⇧',
-        'meta': '⌘'
-      };
-      
-      const displayMods = chord.modifiers.map(m => modifierMap[m] || m);
-      return [...displayMods, chord.key.toUpperCase()].join('');
-    } else {
-      // Windows/Linux: use text
-      const modifierMap: Record<string, string> = {
-        'cmd': 'Ctrl',
-        'ctrl': 'Ctrl',
-        'alt': 'Alt',
-        'option': 'Alt',
-        'shift': 'Shift',
-        'meta': 'Meta'
-      };
-      
-      const displayMods = chord.modifiers.map(m => modifierMap[m] || m);
-      return [...displayMods, chord.key.toUpperCase()].join('+');
-    }
+  static normalizeChordForDisplay(chord: KeyChord, platform: TargetPlatform): string {
+    return CanonicalChords.format(chord.raw, platform);
   }
   
   /**
    * Normalize full key sequence for display
    */
-  static normalizeKeySequenceForDisplay(keySequence: string, platform: 'darwin' | 'win32' | 'linux'): string {
+  static normalizeKeySequenceForDisplay(keySequence: string, platform: TargetPlatform): string {
     const chords = this.parseKeySequence(keySequence);
     return chords.map(c => this.normalizeChordForDisplay(c, platform)).join(' ');
   }
   
+  /**
+   * Summarize command args for display
+   * Example: { text: "console.log()" } -> 'text: "console.log()"'
+   */
+  static summarizeArgs(args: unknown, maxLength: number = 60): string | undefined {
+    if (args === undefined || args === null) {
+      return undefined;
+    }
+    
+    let summary: string;
+    
+    if (typeof args === 'object' && !Array.isArray(args)) {
+      summary = Object.entries(args as Record<string, unknown>)
+        .map(([name, value]) => `${name}: ${JSON.stringify(value)}`)
+        .join(', ');
+    } else {
+      summary = JSON.stringify(args);
+    }
+    
+    if (summary.length > maxLength) {
+      summary = `${summary.slice(0, maxLength - 1)}…`;
+    }
+    
+    return summary;
+  }
+  
+  /**
+   * Identity of what a binding runs: command plus args
+   * Bindings with the same command but different args are distinct
+   */
+  static getSignature(binding: ParsedKeybinding): string {
+    if (binding.args === undefined) {
+      return binding.command;
+    }
+    
+    return `${binding.command} ${this.stableStringify(binding.args)}`;
+  }
+  
+  /**
+   * Identify a binding independently of the keymap it was parsed into:
+   * normalized key, disabled state, command, args and when clause
+   */
+  static getBindingId(binding: ParsedKeybinding): string {
+    return `${CanonicalChords.toSequenceKey(binding.key)}|${binding.disabled ? '-' : ''}${this.getSignature(binding)}|${binding.when || ''}`;
+  }
+  
+  /**
+   * JSON.stringify with object keys sorted, so equal args compare equal
+   */
+  private static stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.stableStringify(item)).join(',')}]`;
+    }
+    
+    if (value && typeof value === 'object') {
+      const entries = Object.keys(value as Record<string, unknown>).sort()
+        .map(name => `${JSON.stringify(name)}:${this.stableStringify((value as Record<string, unknown>)[name])}`);
+      return `{${entries.join(',')}}`;
+    }
+    
+    return JSON.stringify(value) ?? 'null';
+  }
+  
   /**
    * Derive category from command namespace
    * Example: "git.pull" -> "Git"
    */
-  private static deriveCategory(command: string): string {
+  static deriveCategory(command: string): string {
     const prefix = command.split('.')[0];
     
     const categoryMap: Record<string, string> = {
@@ -240,6 +427,15 @@ export class KeybindingParser {
       warnings.push('"when" should be a string');
     }
     
+    // Validate when clause syntax
+    if (binding.when && typeof binding.when === 'string') {
+      try {
+        WhenClauseParser.parse(binding.when);
+      } catch (error) {
+        warnings.push(`Invalid when clause: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    
     // Validate key format
     if (binding.key) {
       try {
@@ -249,6 +445,11 @@ export class KeybindingParser {
       }
     }
     
+    // Flag unknown key tokens (the binding is kept but will never fire)
+    if (typeof binding.key === 'string') {
+      warnings.push(...KeyVocabulary.validateKeySequence(binding.key));
+    }
+    
     return {
       valid: errors.length === 0,
       errors,
@@ -8,6 +8,8 @@
 
 import { ParsedKeybinding, PrefixNode } from './types';
 import { KeybindingParser } from './parser';
+import { CanonicalChords } from './canonicalChord';
+import { WhenClauseParser } from './whenClause';
 
 export class PrefixGraphBuilder {
   
@@ -90,20 +92,26 @@ export class PrefixGraphBuilder {
   
   /**
    * Normalize chord for consistent lookup
-   * Lowercase and sort modifiers
+   * Equivalent modifiers (cmd/meta/win, option/alt) map to the same key
    */
-  private static normalizeChordKey(chord: string): string {
-    const parsed = KeybindingParser.parseChord(chord);
-    
-    // Sort modifiers alphabetically for consistency
-    const sortedModifiers = [...parsed.modifiers].sort();
-    
-    // Reconstruct normalized key
-    if (sortedModifiers.length > 0) {
-      return [...sortedModifiers, parsed.key].join('+');
-    }
-    
-    return parsed.key;
+  static normalizeChordKey(chord: string): string {
+    return CanonicalChords.toKey(chord);
+  }
+  
+  /**
+   * Normalize a full key sequence chord by chord
+   * Example: "Shift+Cmd+K  X" -> "shift+meta+k x"
+   */
+  static normalizeKeySequence(keySequence: string): string {
+    return CanonicalChords.toSequenceKey(keySequence);
+  }
+  
+  /**
+   * Canonical text of a binding's when clause, so formatting differences don't count
+   * Example: "editorFocus&&!inDebugMode" -> "editorFocus && !inDebugMode"
+   */
+  static normalizeWhen(binding: ParsedKeybinding): string {
+    return binding.whenAst ? WhenClauseParser.stringify(binding.whenAst) : (binding.when || '').trim();
   }
   
   /**
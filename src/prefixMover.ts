@@ -0,0 +1,102 @@
+/**
+ * Prefix Mover Module
+ * 
+ * Plans moving a whole prefix subtree to another leader chord:
+ * - Rewrites every binding under the prefix (e.g., "cmd+alt+g p" -> "ctrl+g p")
+ * - Reports collisions with bindings already at the destination
+ * - Renders the plan as a Markdown preview
+ */
+
+import { ParsedKeybinding, PrefixMovePlan } from './types';
+import { PrefixGraphBuilder } from './prefixGraph';
+import { ConflictDetector } from './conflictDetector';
+import { KeybindingParser } from './parser';
+
+export class PrefixMover {
+  
+  /**
+   * Plan moving the bindings under `from` to `to`
+   * Disabled bindings are left alone
+   */
+  static plan(bindings: ParsedKeybinding[], from: string, to: string): PrefixMovePlan {
+    const active = bindings.filter(b => !b.disabled);
+    const fromChords = from.trim().split(/\s+/);
+    const toChords = to.trim().split(/\s+/);
+    
+    const node = PrefixGraphBuilder.findNode(PrefixGraphBuilder.buildPrefixTree(active), from);
+    const subtree = node ? PrefixGraphBuilder.flattenTree(new Map([[from, node]])) : [];
+    const moving = new Set(subtree);
+    const others = active.filter(b => !moving.has(b));
+    
+    const moves = subtree.map(binding => {
+      const newKey = [...toChords, ...binding.key.trim().split(/\s+/).slice(fromChords.length)].join(' ');
+      const moved = { ...binding, key: newKey };
+      
+      return {
+        binding,
+        newKey,
+        collisions: others.filter(other => ConflictDetector.conflicts(moved, other))
+      };
+    });
+    
+    return { from: fromChords.join(' '), to: toChords.join(' '), moves };
+  }
+  
+  /**
+   * Check whether moving `from` to `to` would move it into its own subtree
+   */
+  static isInsideSubtree(from: string, to: string): boolean {
+    const fromKey = PrefixGraphBuilder.normalizeKeySequence(from);
+    const toKey = PrefixGraphBuilder.normalizeKeySequence(to);
+    return toKey === fromKey || toKey.startsWith(fromKey + ' ');
+  }
+  
+  /**
+   * Number of moves that collide with existing bindings
+   */
+  static countCollisions(plan: PrefixMovePlan): number {
+    return plan.moves.filter(move => move.collisions.length > 0).length;
+  }
+  
+  /**
+   * Render a plan as a Markdown preview
+   */
+  static toMarkdown(plan: PrefixMovePlan): string {
+    const code = (text: string) => `\`${text.replace(/\|/g, '\\|')}\``;
+    const describe = (b: ParsedKeybinding) => {
+      const args = KeybindingParser.summarizeArgs(b.args);
+      return `${b.command}${args ? ` (${args})` : ''}`;
+    };
+    
+    const collisions = this.countCollisions(plan);
+    const lines = [
+      `# Move ${plan.from} → ${plan.to}`,
+      '',
+      `${plan.moves.length} binding${plan.moves.length !== 1 ? 's' : ''} will move` +
+        (collisions > 0 ? `, ${collisions} colliding with existing bindings` : ', no collisions'),
+      '',
+      '| Before | After | Command | When | Origin |',
+      '| --- | --- | --- | --- | --- |'
+    ];
+    
+    for (const move of plan.moves) {
+      const b = move.binding;
+      lines.push(
+        `| ${code(b.key)} | ${code(move.newKey)}${move.collisions.length > 0 ? ' ⚠' : ''} | ${code(describe(b))} | ` +
+        `${b.when ? code(b.when) : ''} | ${b.origin} |`
+      );
+    }
+    lines.push('');
+    
+    if (collisions > 0) {
+      lines.push(`## Collisions (${collisions})`, '');
+      for (const move of plan.moves.filter(m => m.collisions.length > 0)) {
+        const rivals = move.collisions.map(c => `${code(c.key)} → ${code(describe(c))}`).join(', ');
+        lines.push(`- ${code(move.newKey)} → ${code(describe(move.binding))} conflicts with ${rivals}`);
+      }
+      lines.push('');
+    }
+    
+    return lines.join('\n');
+  }
+}
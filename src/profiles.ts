@@ -0,0 +1,115 @@
+/**
+ * Profile Resolver Module
+ * 
+ * Lists an editor's settings profiles and where their keybindings live.
+ * Handles:
+ * - Display names from globalStorage/storage.json (userDataProfiles)
+ * - Profiles that share the default profile's keybindings
+ * - Profile folders missing from storage.json (named by folder id)
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { EditorProfile } from './types';
+
+/** A profile entry in storage.json */
+interface StoredProfile {
+  location?: string;
+  name?: string;
+  useDefaultFlags?: Record<string, boolean>;
+}
+
+export class ProfileResolver {
+  /** Name VS Code shows for the built-in profile */
+  static readonly DEFAULT_PROFILE_NAME = 'Default';
+  
+  /**
+   * List profiles for an editor's User directory, default profile first
+   */
+  static async listProfiles(userPath: string): Promise<EditorProfile[]> {
+    const defaultKeybindings = path.join(userPath, 'keybindings.json');
+    const profiles: EditorProfile[] = [{
+      name: this.DEFAULT_PROFILE_NAME,
+      keybindingsPath: defaultKeybindings,
+      usesDefaultKeybindings: false
+    }];
+    
+    const stored = await this.readStoredProfiles(userPath);
+    const seen = new Set<string>();
+    
+    for (const entry of stored) {
+      if (!entry.location) {
+        continue;
+      }
+      
+      // Locations are folder ids, or URIs for profiles created by older builds
+      const id = path.basename(entry.location.replace(/\/+$/, ''));
+      const sharesKeybindings = entry.useDefaultFlags?.keybindings === true;
+      seen.add(id);
+      
+      profiles.push({
+        id,
+        name: entry.name || id,
+        keybindingsPath: sharesKeybindings
+          ? defaultKeybindings
+          : path.join(userPath, 'profiles', id, 'keybindings.json'),
+        usesDefaultKeybindings: sharesKeybindings
+      });
+    }
+    
+    // Profile folders storage.json doesn't know about
+    for (const id of await this.readProfileFolders(userPath)) {
+      if (!seen.has(id)) {
+        profiles.push({
+          id,
+          name: id,
+          keybindingsPath: path.join(userPath, 'profiles', id, 'keybindings.json'),
+          usesDefaultKeybindings: false
+        });
+      }
+    }
+    
+    return profiles;
+  }
+  
+  /**
+   * Find the profile a keybindings file belongs to
+   * A file shared by several profiles resolves to the preferred name, else the first (the default)
+   */
+  static findProfileForPath(
+    profiles: EditorProfile[],
+    filePath: string,
+    preferredName?: string
+  ): EditorProfile | undefined {
+    const target = path.resolve(filePath);
+    const matches = profiles.filter(profile => path.resolve(profile.keybindingsPath) === target);
+    return matches.find(profile => profile.name === preferredName) || matches[0];
+  }
+  
+  /**
+   * Read userDataProfiles from globalStorage/storage.json
+   */
+  private static async readStoredProfiles(userPath: string): Promise<StoredProfile[]> {
+    const storagePath = path.join(userPath, 'globalStorage', 'storage.json');
+    
+    try {
+      const storage = JSON.parse(await fs.readFile(storagePath, 'utf-8'));
+      return Array.isArray(storage?.userDataProfiles) ? storage.userDataProfiles : [];
+    } catch {
+      // No storage.json (or unreadable): only folders are known
+      return [];
+    }
+  }
+  
+  /**
+   * List folder ids under User/profiles
+   */
+  private static async readProfileFolders(userPath: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(path.join(userPath, 'profiles'), { withFileTypes: true });
+      return entries.filter(entry => entry.isDirectory()).map(entry => entry.name);
+    } catch {
+      return [];
+    }
+  }
+}
@@ -2,11 +2,14 @@
  * Search Index Module
  * 
  * Provides fuzzy search across keybindings using Fuse.js
- * Searches: key sequences, command IDs, command labels, categories
+ * Searches: key sequences, command IDs, command labels, categories, args,
+ * and the inner commands of runCommands-style chains
  */
 
 import Fuse, { type FuseResultMatch } from 'fuse.js';
 import { ParsedKeybinding, SearchResult } from './types';
+import { KeybindingParser } from './parser';
+import { CommandChainExpander } from './commandChain';
 
 export class SearchIndex {
   private fuse: Fuse<ParsedKeybinding> | undefined;
@@ -24,7 +27,19 @@ export class SearchIndex {
         { name: 'command', weight: 1.5 },
         { name: 'commandLabel', weight: 1.5 },
         { name: 'category', weight: 1 },
-        { name: 'when', weight: 0.5 }
+        { name: 'tags', weight: 1 },
+        { name: 'when', weight: 0.5 },
+        {
+          name: 'args',
+          weight: 0.75,
+          getFn: binding => KeybindingParser.summarizeArgs(binding.args, Infinity) || ''
+        },
+        {
+          name: 'chain',
+          weight: 1.25,
+          getFn: binding => CommandChainExpander.flatten(binding.chain)
+            .flatMap(step => step.commandLabel ? [step.command, step.commandLabel] : [step.command])
+        }
       ],
       threshold: 0.4,
       includeScore: true,
@@ -53,11 +68,7 @@ export class SearchIndex {
   /**
    * Extract which fields matched
    */
-  private extractMatches(matches: readonly FuseResultMatch[] | undefined): {
-    key?: boolean;
-    command?: boolean;
-    category?: boolean;
-  } {
+  private extractMatches(matches: readonly FuseResultMatch[] | undefined): SearchResult['matches'] {
     if (!matches) {
       return {};
     }
@@ -65,7 +76,8 @@ export class SearchIndex {
     return {
       key: matches.some(m => m.key === 'key'),
       command: matches.some(m => m.key === 'command' || m.key === 'commandLabel'),
-      category: matches.some(m => m.key === 'category')
+      category: matches.some(m => m.key === 'category'),
+      chain: matches.some(m => m.key === 'chain')
     };
   }
   
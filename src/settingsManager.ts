@@ -9,7 +9,8 @@
  */
 
 import * as vscode from 'vscode';
-import { ChordMapConfig, ParsedKeybinding } from './types';
+import { CategoryRule, ChordMapConfig, LintRuleId, LintSeverity, ParsedKeybinding } from './types';
+import { CanonicalChords, TargetPlatform } from './canonicalChord';
 
 export class SettingsManager {
   private static readonly CONFIG_SECTION = 'chordMap';
@@ -45,7 +46,11 @@ export class SettingsManager {
       compactView: config.get<boolean>('compactView', false),
       viewMode: config.get<'tree' | 'list' | 'blocks'>('viewMode', 'tree'),
       showCommandTitle: config.get<boolean>('showCommandTitle', true),
-      autoExpandOnSearch: config.get<boolean>('autoExpandOnSearch', true)
+      autoExpandOnSearch: config.get<boolean>('autoExpandOnSearch', true),
+      showOnlyCustomizations: config.get<boolean>('showOnlyCustomizations', false),
+      categoryRules: config.get<CategoryRule[]>('categoryRules', []),
+      targetPlatform: config.get<'auto' | TargetPlatform>('targetPlatform', 'auto'),
+      lintRules: config.get<Partial<Record<LintRuleId, LintSeverity>>>('lintRules', {})
     };
   }
   
@@ -99,6 +104,11 @@ export class SettingsManager {
       filtered = filtered.filter(b => !b.disabled);
     }
     
+    // Hide untouched defaults and extension contributions
+    if (config.showOnlyCustomizations) {
+      filtered = filtered.filter(b => b.origin !== 'default' && b.origin !== 'extension');
+    }
+    
     return filtered;
   }
   
@@ -138,6 +148,27 @@ export class SettingsManager {
     return this.getConfig().categoryDerivationMethod;
   }
   
+  /**
+   * Get user-defined category rules
+   */
+  getCategoryRules(): CategoryRule[] {
+    return this.getConfig().categoryRules;
+  }
+  
+  /**
+   * Get the platform to analyse keybindings for ('auto' resolves to the running OS)
+   */
+  getTargetPlatform(): TargetPlatform {
+    return CanonicalChords.resolvePlatform(this.getConfig().targetPlatform);
+  }
+  
+  /**
+   * Get lint rule severities set by the user (unset rules use their defaults)
+   */
+  getLintRules(): Partial<Record<LintRuleId, LintSeverity>> {
+    return this.getConfig().lintRules;
+  }
+  
   /**
    * Open settings page for ChordMap
    */
@@ -1,15 +1,21 @@
 /**
  * Settings View Module
  * 
- * Provides a visual settings interface with toggles and organized sections
+ * Provides a visual settings interface with toggles and organized sections,
+ * including an editor for category rules with a live match preview
  */
 
 import * as vscode from 'vscode';
+import { CategoryRule, ParsedKeybinding } from './types';
+import { CategoryRuleEngine } from './categoryRules';
 
 export class SettingsView {
   private panel: vscode.WebviewPanel | undefined;
   
-  constructor(private context: vscode.ExtensionContext) {}
+  constructor(
+    private context: vscode.ExtensionContext,
+    private getBindings: () => Promise<ParsedKeybinding[]>
+  ) {}
   
   /**
    * Show or focus the settings panel
@@ -67,11 +73,15 @@ export class SettingsView {
       showWhenClauses: config.get('showWhenClauses'),
       showCommands: config.get('showCommands'),
       showSyncMetadata: config.get('showSyncMetadata'),
+      showOnlyCustomizations: config.get('showOnlyCustomizations'),
       
       // Sync Settings
       autoSync: config.get('autoSync'),
       enableFileWatcher: config.get('enableFileWatcher'),
-      categoryDerivationMethod: config.get('categoryDerivationMethod')
+      categoryDerivationMethod: config.get('categoryDerivationMethod'),
+      
+      // Category Rules
+      categoryRules: config.get('categoryRules')
     };
     
     this.panel.webview.postMessage({ type: 'settings', settings });
@@ -91,9 +101,23 @@ export class SettingsView {
       vscode.commands.executeCommand('workbench.action.openSettings', '@ext:neohbz.chordmap');
     } else if (message.type === 'requestSettings') {
       await this.sendCurrentSettings();
+    } else if (message.type === 'previewRules') {
+      await this.sendRulePreview(message.rules);
     }
   }
   
+  /**
+   * Send how many bindings each (unsaved) rule captures
+   */
+  private async sendRulePreview(rules: CategoryRule[]): Promise<void> {
+    if (!this.panel || !Array.isArray(rules)) return;
+    
+    const bindings = await this.getBindings();
+    const counts = CategoryRuleEngine.countMatches(bindings, rules);
+    
+    this.panel.webview.postMessage({ type: 'rulePreview', counts, total: bindings.length });
+  }
+  
   /**
    * Get webview HTML content
    */
@@ -254,6 +278,56 @@ export class SettingsView {
     .button-secondary:hover {
       background: var(--vscode-button-secondaryHoverBackground);
     }
+    
+    .rules-help {
+      margin-bottom: 12px;
+    }
+    
+    .rule-row {
+      display: grid;
+      grid-template-columns: repeat(6, minmax(0, 1fr)) 90px repeat(3, 28px);
+      gap: 6px;
+      align-items: center;
+      padding: 6px 0;
+      border-bottom: 1px solid var(--vscode-widget-border);
+    }
+    
+    .rule-row input {
+      padding: 4px 6px;
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      border: 1px solid var(--vscode-input-border);
+      border-radius: 3px;
+      font-size: 12px;
+      min-width: 0;
+    }
+    
+    .rule-row input:focus {
+      outline: none;
+      border-color: var(--vscode-focusBorder);
+    }
+    
+    .rule-count {
+      font-size: 11px;
+      opacity: 0.8;
+      text-align: right;
+    }
+    
+    .rule-button {
+      padding: 2px;
+      background: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+      border: none;
+      border-radius: 3px;
+      cursor: pointer;
+    }
+    
+    .rules-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 8px;
+      margin-top: 12px;
+    }
   </style>
 </head>
 <body>
@@ -376,6 +450,16 @@ export class SettingsView {
           <div class="toggle-slider"></div>
         </div>
       </div>
+      
+      <div class="setting-row">
+        <div class="setting-info">
+          <div class="setting-label">Show Only Customizations</div>
+          <div class="setting-description">Hide untouched default and extension keybindings</div>
+        </div>
+        <div class="toggle-switch" id="showOnlyCustomizations" data-setting-key="showOnlyCustomizations">
+          <div class="toggle-slider"></div>
+        </div>
+      </div>
     </div>
     
     <!-- Sync Settings -->
@@ -412,12 +496,32 @@ export class SettingsView {
         </div>
         <select id="categoryDerivationMethod" data-setting-key="categoryDerivationMethod">
           <option value="simple">Simple (namespace)</option>
-          <option value="metadata">Metadata (experimental)</option>
+          <option value="metadata">Metadata (command palette)</option>
           <option value="off">Off</option>
         </select>
       </div>
     </div>
     
+    <!-- Category Rules -->
+    <div class="section">
+      <div class="section-title">
+        <span class="section-icon">🏷️</span>
+        Category Rules
+      </div>
+      
+      <div class="setting-description rules-help">
+        Ordered rules that assign categories; the first matching rule wins.
+        Command accepts globs (gitlens.*) or /regex/, key matches a chord prefix (cmd+k).
+      </div>
+      
+      <div id="rulesList"></div>
+      
+      <div class="rules-actions">
+        <button class="button button-secondary" id="addRule">Add Rule</button>
+        <button class="button" id="saveRules">Save Rules</button>
+      </div>
+    </div>
+    
     <!-- Footer -->
     <div class="footer">
       <button class="button button-secondary" id="openVSCodeSettings">
@@ -429,6 +533,17 @@ export class SettingsView {
   <script nonce="${nonce}">
     const vscode = acquireVsCodeApi();
     let settings = {};
+    let rules = [];
+    let rulesDirty = false;
+    
+    const RULE_FIELDS = [
+      ['category', 'Category'],
+      ['command', 'Command glob'],
+      ['when', 'When contains'],
+      ['key', 'Key prefix'],
+      ['icon', 'Codicon'],
+      ['color', 'Theme color']
+    ];
     
     vscode.postMessage({ type: 'requestSettings' });
     
@@ -438,15 +553,114 @@ export class SettingsView {
       if (message.type === 'settings') {
         settings = message.settings;
         applySettings();
+        
+        // Don't clobber rules that are being edited
+        if (!rulesDirty) {
+          rules = (settings.categoryRules || []).map(rule => Object.assign({}, rule));
+          renderRules();
+        }
+      } else if (message.type === 'rulePreview') {
+        applyRulePreview(message.counts);
       }
     });
     
+    function renderRules() {
+      const list = document.getElementById('rulesList');
+      list.innerHTML = '';
+      
+      if (rules.length === 0) {
+        const empty = document.createElement('div');
+        empty.className = 'setting-description';
+        empty.textContent = 'No rules defined';
+        list.appendChild(empty);
+      }
+      
+      rules.forEach((rule, index) => {
+        const row = document.createElement('div');
+        row.className = 'rule-row';
+        
+        RULE_FIELDS.forEach(([field, placeholder]) => {
+          const input = document.createElement('input');
+          input.type = 'text';
+          input.placeholder = placeholder;
+          input.value = rule[field] || '';
+          input.addEventListener('input', () => {
+            rules[index][field] = input.value;
+            rulesDirty = true;
+            requestRulePreview();
+          });
+          row.appendChild(input);
+        });
+        
+        const count = document.createElement('span');
+        count.className = 'rule-count';
+        count.id = 'rule-count-' + index;
+        count.textContent = '…';
+        row.appendChild(count);
+        
+        [['up', '↑', 'Move up'], ['down', '↓', 'Move down'], ['delete', '✕', 'Delete rule']].forEach(([action, text, title]) => {
+          const button = document.createElement('button');
+          button.className = 'rule-button';
+          button.textContent = text;
+          button.title = title;
+          button.addEventListener('click', () => changeRule(index, action));
+          row.appendChild(button);
+        });
+        
+        list.appendChild(row);
+      });
+      
+      requestRulePreview();
+    }
+    
+    function changeRule(index, action) {
+      if (action === 'delete') {
+        rules.splice(index, 1);
+      } else {
+        const target = action === 'up' ? index - 1 : index + 1;
+        if (target < 0 || target >= rules.length) return;
+        const moved = rules.splice(index, 1)[0];
+        rules.splice(target, 0, moved);
+      }
+      rulesDirty = true;
+      renderRules();
+    }
+    
+    function cleanRules() {
+      return rules.map(rule => {
+        const clean = {};
+        RULE_FIELDS.forEach(([field]) => {
+          const value = (rule[field] || '').trim();
+          if (value) clean[field] = value;
+        });
+        return clean;
+      });
+    }
+    
+    function requestRulePreview() {
+      vscode.postMessage({ type: 'previewRules', rules: cleanRules() });
+    }
+    
+    function applyRulePreview(counts) {
+      counts.forEach((count, index) => {
+        const element = document.getElementById('rule-count-' + index);
+        if (element) {
+          element.textContent = count + ' binding' + (count !== 1 ? 's' : '');
+        }
+      });
+    }
+    
+    function saveRules() {
+      rulesDirty = false;
+      updateSetting('categoryRules', cleanRules().filter(rule => rule.category));
+    }
+    
     function applySettings() {
       // Apply toggle states
       const toggles = ['showCommandTitle', 'autoExpandOnSearch', 'showCategories', 
                       'compactView', 'useSymbolsInLiveMode', 'showDisabledBindings',
                       'showWhenClauses', 'showCommands', 'showSyncMetadata', 
-                      'autoSync', 'enableFileWatcher'];
+                      'showOnlyCustomizations', 'autoSync', 'enableFileWatcher'];
       
       toggles.forEach(key => {
         const element = document.getElementById(key);
@@ -505,6 +719,12 @@ export class SettingsView {
       if (openSettingsButton) {
         openSettingsButton.addEventListener('click', () => openVSCodeSettings());
       }
+      document.getElementById('addRule')?.addEventListener('click', () => {
+        rules.push({ category: '' });
+        rulesDirty = true;
+        renderRules();
+      });
+      document.getElementById('saveRules')?.addEventListener('click', () => saveRules());
     }
     
     document.addEventListener('DOMContentLoaded', wireControls);
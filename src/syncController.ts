@@ -2,50 +2,130 @@
  * Sync Controller Module
  * 
  * Handles syncing keybindings.json with the extension:
- * - Detects editor variant (VS Code, Insiders, Antigravity)
- * - Resolves platform-specific paths
+ * - Detects editor variant (VS Code, Insiders, VSCodium, Cursor, Antigravity)
+ * - Syncs other installed editors into named keymaps for comparison
+ * - Merges bundled default and extension keybindings with user overrides
+ * - Resolves command titles
+ * - Reports keybindings.json problems and lint findings as diagnostics
+ * - Resolves platform-specific paths and settings profiles
  * - Manages auto-sync with user permission
- * - Handles FileSystemWatcher for changes
- * - Persists sync metadata
+ * - Handles FileSystemWatcher for changes (debounced)
+ * - Summarizes what changed on each auto-sync
+ * - Persists synced keymaps and sync metadata in the keymap store
+ * - Records keymap snapshots in the history
  */
 
 import * as vscode from 'vscode';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import * as os from 'os';
-import { ParsedKeybinding, SyncMetadata } from './types';
+import {
+  EditorProfile,
+  KeybindingParseResult,
+  KeybindingProblem,
+  NamedKeymap,
+  ParsedKeybinding,
+  SyncMetadata,
+  SyncResult
+} from './types';
 import { KeybindingParser } from './parser';
+import { ConflictDetector } from './conflictDetector';
+import { DefaultKeymap } from './defaultKeymap';
+import { ExtensionKeybindingCollector } from './extensionKeybindings';
+import { CanonicalChords } from './canonicalChord';
+import { CommandMetadataResolver } from './commandMetadata';
+import { SettingsManager } from './settingsManager';
+import { CategoryRuleEngine } from './categoryRules';
+import { KeybindingDiagnostics } from './keybindingDiagnostics';
+import { ProfileResolver } from './profiles';
+import { KeymapDiffer } from './keymapDiff';
+import { EditorDiscovery } from './editors';
+import { KeybindingsFileEditor } from './keybindingsFileEditor';
+import { KeymapHistory } from './keymapHistory';
+import { KeymapStore } from './keymapStore';
+import { KeymapLinter } from './keymapLinter';
 
 export class SyncController {
-  private static readonly STORAGE_KEY_METADATA = 'chordmap.syncMetadata';
-  private static readonly STORAGE_KEY_BINDINGS = 'chordmap.bindings';
-  private static readonly SCHEMA_VERSION = 1;
+  private static readonly FILE_CHANGE_DEBOUNCE_MS = 500;
   
   private context: vscode.ExtensionContext;
+  private commandMetadata: CommandMetadataResolver;
+  private diagnostics: KeybindingDiagnostics;
   private fileWatcher: vscode.FileSystemWatcher | undefined;
   private lastSyncedPath: string | undefined;
+  private fileChangeTimer: NodeJS.Timeout | undefined;
+  private onDidSyncEmitter = new vscode.EventEmitter<void>();
+  private disposables: vscode.Disposable[] = [];
   
-  constructor(context: vscode.ExtensionContext) {
+  readonly onDidSync = this.onDidSyncEmitter.event;
+  
+  constructor(
+    context: vscode.ExtensionContext,
+    private settingsManager: SettingsManager,
+    private store: KeymapStore,
+    private history: KeymapHistory
+  ) {
     this.context = context;
+    this.commandMetadata = new CommandMetadataResolver(context.extensionPath);
+    this.diagnostics = new KeybindingDiagnostics();
+    
+    // Extension keybindings change when extensions are installed or removed
+    this.disposables.push(
+      vscode.extensions.onDidChange(() => {
+        this.resyncLastPath();
+      })
+    );
+    
+    // Categories and platform keys are resolved at sync time, so re-sync when they change
+    this.disposables.push(
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (
+          e.affectsConfiguration('chordMap.categoryDerivationMethod') ||
+          e.affectsConfiguration('chordMap.categoryRules') ||
+          e.affectsConfiguration('chordMap.targetPlatform') ||
+          e.affectsConfiguration('chordMap.lintRules')
+        ) {
+          this.resyncLastPath();
+        }
+        
+        // Without auto-sync the file's diagnostics would go stale as it is edited
+        if (
+          e.affectsConfiguration('chordMap.autoSync') &&
+          !vscode.workspace.getConfiguration('chordMap').get<boolean>('autoSync', true)
+        ) {
+          this.diagnostics.clear();
+        }
+      })
+    );
   }
   
   /**
    * Initialize sync controller
+   * - Load the stored keymap, re-syncing it if it had to be migrated or repaired
    * - Check for auto-sync permission
-   * - Attempt auto-sync if enabled
+   * - Attempt auto-sync if enabled (unless the re-sync already synced)
    * - Set up file watcher
    */
   async initialize(): Promise<void> {
     const config = vscode.workspace.getConfiguration('chordMap');
     const autoSync = config.get<boolean>('autoSync', true);
     
+    let needsResync = false;
+    try {
+      needsResync = await this.store.load();
+    } catch (error) {
+      console.error('Failed to load stored keymap:', error);
+    }
+    
+    // Stored items may lack newer fields; rebuild them from the source file
+    const resynced = needsResync && await this.resyncLastPath();
+    
     if (autoSync) {
       // Check if we've asked for permission before
       const hasAskedPermission = this.context.globalState.get<boolean>('chordmap.hasAskedPermission', false);
       
       if (!hasAskedPermission) {
         await this.requestAutoSyncPermission();
-      } else {
+      } else if (!resynced) {
         // Permission already granted, try auto-sync
         await this.performAutoSync();
       }
@@ -132,57 +212,463 @@ export class SyncController {
     const selectedPath = fileUri[0].fsPath;
     
     try {
-      await this.syncFromPath(selectedPath);
-      vscode.window.showInformationMessage(`Synced ${await this.getBindingCount()} keybindings successfully!`);
+      const result = await this.syncFromPath(selectedPath);
+      this.showSyncSummary(result);
     } catch (error) {
-      vscode.window.showErrorMessage(`Failed to sync keybindings: ${error}`);
+      this.showSyncError(error);
     }
   }
   
   /**
-   * Sync from a specific path
+   * Show "N synced, M skipped" with a link to the Problems panel
+   */
+  private showSyncSummary(result: SyncResult): void {
+    const message = `ChordMap: ${result.synced} synced, ${result.skipped} skipped`;
+    
+    if (result.problemCount === 0) {
+      vscode.window.showInformationMessage(message);
+      return;
+    }
+    
+    const show = result.skipped > 0 ? vscode.window.showWarningMessage : vscode.window.showInformationMessage;
+    show(`${message} (${result.problemCount} problem${result.problemCount !== 1 ? 's' : ''})`, 'Show Problems').then(action => {
+      if (action === 'Show Problems') {
+        vscode.commands.executeCommand('workbench.actions.view.problems');
+      }
+    });
+  }
+  
+  /**
+   * Show a sync failure with a link to the Problems panel
+   */
+  private showSyncError(error: unknown): void {
+    vscode.window.showErrorMessage(`Failed to sync keybindings: ${error}`, 'Show Problems').then(action => {
+      if (action === 'Show Problems') {
+        vscode.commands.executeCommand('workbench.actions.view.problems');
+      }
+    });
+  }
+  
+  /**
+   * Pick one or more settings profiles to sync
+   * Picking several syncs the first and opens a comparison of all of them
+   */
+  async syncProfiles(): Promise<void> {
+    const profiles = await this.listProfiles();
+    const current = this.getSyncMetadata();
+    
+    interface ProfileQuickPickItem extends vscode.QuickPickItem {
+      profile: EditorProfile;
+    }
+    
+    const items: ProfileQuickPickItem[] = profiles.map(profile => ({
+      label: profile.name,
+      description: profile.usesDefaultKeybindings ? 'uses Default keybindings' : profile.id,
+      detail: profile.keybindingsPath,
+      picked: !!current && path.resolve(current.filePath) === path.resolve(profile.keybindingsPath) &&
+        current.profileName === profile.name,
+      profile
+    }));
+    
+    const selected = await vscode.window.showQuickPick(items, {
+      canPickMany: true,
+      placeHolder: 'Select the profile to sync (select several to compare them)',
+      title: 'ChordMap: Sync Profile'
+    });
+    
+    if (!selected || selected.length === 0) {
+      return;
+    }
+    
+    const [primary, ...others] = selected.map(item => item.profile);
+    
+    try {
+      const result = await this.syncFromPath(primary.keybindingsPath, primary);
+      this.showSyncSummary(result);
+    } catch (error) {
+      this.showSyncError(error);
+      return;
+    }
+    
+    if (others.length > 0) {
+      await this.compareProfiles([primary, ...others]);
+    }
+  }
+  
+  /**
+   * Open a Markdown report comparing each profile with the first one
+   */
+  private async compareProfiles(profiles: EditorProfile[]): Promise<void> {
+    const editorName = this.detectEditorName();
+    const keymaps: ParsedKeybinding[][] = [];
+    
+    for (const profile of profiles) {
+      try {
+        const { bindings } = await this.buildKeymap(profile.keybindingsPath, editorName);
+        keymaps.push(KeymapDiffer.customizations(bindings));
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to read profile "${profile.name}": ${error}`);
+        return;
+      }
+    }
+    
+    const sections = [`# Keybinding differences between profiles (${editorName})`, ''];
+    
+    for (let i = 1; i < profiles.length; i++) {
+      const diff = KeymapDiffer.compare(keymaps[0], keymaps[i]);
+      sections.push(KeymapDiffer.toMarkdown(profiles[0].name, profiles[i].name, diff));
+    }
+    
+    const document = await vscode.workspace.openTextDocument({
+      language: 'markdown',
+      content: sections.join('\n')
+    });
+    await vscode.window.showTextDocument(document, { preview: true });
+  }
+  
+  /**
+   * Pick installed editors and sync each into its own named keymap
+   * Returns false when nothing was synced
+   */
+  async syncEditors(): Promise<boolean> {
+    const installs = await EditorDiscovery.discover();
+    
+    if (installs.length === 0) {
+      vscode.window.showInformationMessage('ChordMap: No VS Code-based editors found');
+      return false;
+    }
+    
+    const runningEditor = this.detectEditorName();
+    const runningPath = this.getDefaultKeybindingsPath();
+    
+    if (!runningPath) {
+      vscode.window.showErrorMessage('ChordMap: Could not determine the keybindings.json path for this editor');
+      return false;
+    }
+    
+    const selected = await vscode.window.showQuickPick(
+      installs.map(install => ({
+        label: install.name,
+        description: install.name === runningEditor ? 'this editor' : undefined,
+        detail: install.userPath,
+        picked: true,
+        install
+      })),
+      {
+        canPickMany: true,
+        placeHolder: 'Select the editors to sync and compare',
+        title: 'ChordMap: Sync Other Editors'
+      }
+    );
+    
+    if (!selected || selected.length === 0) {
+      return false;
+    }
+    
+    const failures: string[] = [];
+    
+    for (const { install } of selected) {
+      // The running editor uses the profile picked for the main view
+      const filePath = install.name === runningEditor
+        ? runningPath
+        : path.join(install.userPath, 'keybindings.json');
+      
+      try {
+        await this.syncEditorKeymap(install.name, filePath);
+      } catch (error) {
+        failures.push(`${install.name}: ${error}`);
+      }
+    }
+    
+    if (failures.length > 0) {
+      vscode.window.showWarningMessage(`ChordMap: Some editors could not be synced. ${failures.join('; ')}`);
+    }
+    
+    return failures.length < selected.length;
+  }
+  
+  /**
+   * Sync one editor's keybindings.json into its named keymap
+   * A missing file is an editor without customizations
+   * `unsavedContent` is the text of the file's open document when it has unsaved changes
+   */
+  async syncEditorKeymap(editorName: string, filePath: string, unsavedContent?: string): Promise<NamedKeymap> {
+    let bindings: ParsedKeybinding[] = [];
+    
+    try {
+      if (unsavedContent === undefined) {
+        await fs.access(filePath);
+      }
+      const keymap = await this.buildKeymap(filePath, editorName, unsavedContent);
+      
+      if (keymap.parseResult.hasSyntaxErrors) {
+        throw new Error(`${path.basename(filePath)} has syntax errors`);
+      }
+      
+      bindings = KeymapDiffer.customizations(keymap.bindings);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    
+    const keymap: NamedKeymap = {
+      name: editorName,
+      metadata: {
+        lastSync: new Date().toISOString(),
+        editorName,
+        filePath,
+        bindingCount: bindings.length,
+        schemaVersion: KeymapStore.SCHEMA_VERSION
+      },
+      bindings
+    };
+    
+    await this.store.saveEditorKeymap(keymap);
+    
+    return keymap;
+  }
+  
+  /**
+   * Get keymaps synced from other editors
+   */
+  getEditorKeymaps(): NamedKeymap[] {
+    return Object.values(this.store.getEditorKeymaps()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  /**
+   * Copy bindings into a named keymap's keybindings.json, replacing others
+   * (e.g., the same command bound to a different key), then re-sync it
+   */
+  async copyBindingsToEditor(
+    bindings: ParsedKeybinding[],
+    editorName: string,
+    replace: ParsedKeybinding[]
+  ): Promise<void> {
+    const target = this.getEditorKeymaps().find(keymap => keymap.name === editorName);
+    
+    if (!target) {
+      throw new Error(`No synced keymap named "${editorName}"`);
+    }
+    
+    const unsaved = await KeybindingsFileEditor.apply(target.metadata.filePath, content => {
+      let updated = content;
+      
+      // Remove from the end so earlier indexes stay valid
+      const indexes = replace
+        .map(binding => KeybindingsFileEditor.findEntryIndex(updated, binding))
+        .filter(index => index >= 0)
+        .sort((a, b) => b - a);
+      
+      for (const index of indexes) {
+        updated = KeybindingsFileEditor.remove(updated, index);
+      }
+      
+      for (const binding of bindings) {
+        updated = KeybindingsFileEditor.append(updated, KeybindingsFileEditor.toEntry(binding));
+      }
+      
+      return updated;
+    });
+    
+    await this.syncEditorKeymap(editorName, target.metadata.filePath, unsaved);
+  }
+  
+  /**
+   * List settings profiles of the running editor
    */
-  async syncFromPath(filePath: string): Promise<void> {
-    // Read file
-    const content = await fs.readFile(filePath, 'utf-8');
+  async listProfiles(): Promise<EditorProfile[]> {
+    return ProfileResolver.listProfiles(this.getUserDataPath());
+  }
+  
+  /**
+   * Read, parse and merge a keybindings.json into the effective keymap
+   * Unsaved document text is used instead of the file on disk when given
+   */
+  private async buildKeymap(filePath: string, editorName: string, unsavedContent?: string): Promise<{
+    bindings: ParsedKeybinding[];
+    content: string;
+    parseResult: KeybindingParseResult;
+    partialDefaults: boolean;
+  }> {
+    const content = unsavedContent ?? await fs.readFile(filePath, 'utf-8');
+    const parseResult = KeybindingParser.parseKeybindingsDocument(content, editorName);
+    
+    if (parseResult.hasSyntaxErrors) {
+      return { bindings: [], content, parseResult, partialDefaults: false };
+    }
+    
+    // Merge defaults and extension contributions with the user file into the effective keymap
+    // The running editor's live defaults only describe its own platform
+    const platform = this.settingsManager.getTargetPlatform();
+    const useLiveDefaults = editorName === this.detectEditorName() && platform === CanonicalChords.resolvePlatform();
+    const extensionBindings = ExtensionKeybindingCollector.collect(platform);
+    const loaded = await DefaultKeymap.load(this.context.extensionPath, platform, editorName, useLiveDefaults);
+    const defaults = DefaultKeymap.withoutContributed(loaded.bindings, extensionBindings);
+    const bindings = DefaultKeymap.merge([...defaults, ...extensionBindings], parseResult.bindings);
+    
+    // Resolve command titles (extensions may have changed since the last sync)
+    await this.commandMetadata.load();
+    this.commandMetadata.applyLabels(bindings);
+    this.applyCategories(bindings);
+    
+    // Populate conflictsWith
+    ConflictDetector.detectConflicts(bindings);
+    
+    return { bindings, content, parseResult, partialDefaults: loaded.partial };
+  }
+  
+  /**
+   * Run the keymap linter over the effective keymap
+   * Commands count as known when registered or contributed by an installed extension
+   */
+  private async lint(bindings: ParsedKeybinding[]): Promise<KeybindingProblem[]> {
+    const registered = new Set(await vscode.commands.getCommands());
+    const isKnownCommand = (command: string) => registered.has(command) || !!this.commandMetadata.getMetadata(command);
     
-    // Parse
+    KeymapLinter.lint(bindings, isKnownCommand, this.settingsManager.getLintRules());
+    
+    return KeymapLinter.toProblems(bindings);
+  }
+  
+  /**
+   * Sync from a specific path
+   * The profile is looked up from the path when not given
+   * `unsavedContent` is the text of the file's open document when it has unsaved changes;
+   * it is synced but not recorded in the history until it is saved
+   */
+  async syncFromPath(filePath: string, profile?: EditorProfile, unsavedContent?: string): Promise<SyncResult> {
     const editorName = this.detectEditorName();
-    const bindings = KeybindingParser.parseKeybindingsFile(content, editorName);
+    const { bindings, content, parseResult, partialDefaults } =
+      await this.buildKeymap(filePath, editorName, unsavedContent);
+    const lintProblems = parseResult.hasSyntaxErrors ? [] : await this.lint(bindings);
+    
+    // Report problems in the Problems panel
+    this.diagnostics.publish(filePath, content, [...parseResult.problems, ...lintProblems]);
     
-    // Store bindings
-    await this.context.globalState.update(SyncController.STORAGE_KEY_BINDINGS, bindings);
+    if (parseResult.hasSyntaxErrors) {
+      throw new Error(`${path.basename(filePath)} has syntax errors`);
+    }
+    
+    // Re-syncs keep the previously chosen profile when several share this file
+    profile = profile || ProfileResolver.findProfileForPath(
+      await this.listProfiles(),
+      filePath,
+      this.getSyncMetadata()?.profileName
+    );
     
-    // Store metadata
     const metadata: SyncMetadata = {
       lastSync: new Date().toISOString(),
       editorName,
       filePath,
+      profileName: profile?.name,
+      profileId: profile?.id,
       bindingCount: bindings.length,
-      schemaVersion: SyncController.SCHEMA_VERSION
+      partialDefaults,
+      schemaVersion: KeymapStore.SCHEMA_VERSION
     };
     
-    await this.context.globalState.update(SyncController.STORAGE_KEY_METADATA, metadata);
+    await this.store.saveKeymap(bindings, metadata);
+    if (unsavedContent === undefined) {
+      await this.history.record(filePath, content, editorName, profile?.name, parseResult.bindings.length);
+    }
     
     this.lastSyncedPath = filePath;
     
     // Update file watcher
     await this.setupFileWatcher();
+    
+    this.onDidSyncEmitter.fire();
+    
+    return {
+      synced: parseResult.bindings.length,
+      skipped: parseResult.skipped,
+      problemCount: parseResult.problems.length,
+      bindingCount: bindings.length
+    };
+  }
+  
+  /**
+   * Assign categories using the configured derivation method,
+   * then let user-defined category rules override them
+   */
+  private applyCategories(bindings: ParsedKeybinding[]): void {
+    const method = this.settingsManager.getCategoryDerivationMethod();
+    
+    for (const binding of bindings) {
+      switch (method) {
+        case 'metadata':
+          binding.category = this.commandMetadata.getCategory(binding);
+          break;
+        case 'off':
+          binding.category = undefined;
+          break;
+        case 'simple':
+        default:
+          binding.category = KeybindingParser.deriveCategory(binding.command);
+          break;
+      }
+    }
+    
+    CategoryRuleEngine.apply(bindings, this.settingsManager.getCategoryRules());
+  }
+  
+  /**
+   * Re-sync the most recently synced file, if any
+   * Returns false when there was no file to re-sync
+   */
+  private async resyncLastPath(): Promise<boolean> {
+    const filePath = this.getSyncMetadata()?.filePath || this.lastSyncedPath;
+    
+    if (!filePath) {
+      return false;
+    }
+    
+    try {
+      await this.syncFromPath(filePath);
+    } catch (error) {
+      console.error('Re-sync failed:', error);
+    }
+    
+    return true;
   }
   
   /**
-   * Get synced bindings from storage
+   * Get synced bindings from storage, with their tags
    */
   async getBindings(): Promise<ParsedKeybinding[]> {
-    const bindings = this.context.globalState.get<ParsedKeybinding[]>(SyncController.STORAGE_KEY_BINDINGS);
-    return bindings || [];
+    const tags = this.store.getTags();
+    
+    return this.store.getBindings().map(binding => {
+      const bindingTags = tags[KeybindingParser.getBindingId(binding)];
+      return bindingTags ? { ...binding, tags: bindingTags } : binding;
+    });
+  }
+  
+  /**
+   * Replace the tags of some bindings (an empty list clears them)
+   */
+  async setTags(bindings: ParsedKeybinding[], tags: string[]): Promise<void> {
+    const allTags = { ...this.store.getTags() };
+    
+    for (const binding of bindings) {
+      const id = KeybindingParser.getBindingId(binding);
+      if (tags.length > 0) {
+        allTags[id] = tags;
+      } else {
+        delete allTags[id];
+      }
+    }
+    
+    await this.store.saveTags(allTags);
+    this.onDidSyncEmitter.fire();
   }
   
   /**
    * Get sync metadata
    */
   getSyncMetadata(): SyncMetadata | undefined {
-    return this.context.globalState.get<SyncMetadata>(SyncController.STORAGE_KEY_METADATA);
+    return this.store.getMetadata();
   }
   
   /**
@@ -197,99 +683,34 @@ export class SyncController {
    * Detect editor name from vscode.env
    */
   private detectEditorName(): string {
-    const appName = vscode.env.appName;
-    
-    if (appName.includes('Insiders')) {
-      return 'VS Code Insiders';
-    } else if (appName.includes('Antigravity')) {
-      return 'Antigravity';
-    } else {
-      return 'VS Code';
-    }
+    return EditorDiscovery.detectEditorName();
   }
   
   /**
    * Get default keybindings.json path for current editor and platform
-   * Auto-detects profiles and checks multiple locations
+   * Prefers the last synced profile's file, else the default profile's
    */
   getDefaultKeybindingsPath(): string | undefined {
-    const platform = os.platform();
-    const homeDir = os.homedir();
-    const editorName = this.detectEditorName();
-    
-    let appDataPath: string;
-    
-    if (platform === 'darwin') {
-      // macOS
-      appDataPath = path.join(homeDir, 'Library', 'Application Support');
-    } else if (platform === 'win32') {
-      // Windows
-      appDataPath = process.env.APPDATA || path.join(homeDir, 'AppData', 'Roaming');
-    } else {
-      // Linux
-      appDataPath = process.env.XDG_CONFIG_HOME || path.join(homeDir, '.config');
-    }
-    
-    // Determine editor folder name
-    let editorFolder: string;
-    if (editorName === 'VS Code Insiders') {
-      editorFolder = platform === 'darwin' ? 'Code - Insiders' : 'Code - Insiders';
-    } else if (editorName === 'Antigravity') {
-      editorFolder = 'Antigravity';
-    } else {
-      editorFolder = 'Code';
-    }
-    
-    const basePath = path.join(appDataPath, editorFolder, 'User');
-    
-    // Check multiple possible locations synchronously
-    const possiblePaths = [
-      // First check for active profile keybindings
-      ...this.findProfileKeybindings(basePath),
-      // Fall back to default User keybindings
-      path.join(basePath, 'keybindings.json')
-    ];
+    const metadata = this.getSyncMetadata();
     
-    // Return first existing path
-    for (const testPath of possiblePaths) {
+    if (metadata?.filePath) {
       try {
         // Sync check for immediate return
-        require('fs').accessSync(testPath);
-        return testPath;
+        require('fs').accessSync(metadata.filePath);
+        return metadata.filePath;
       } catch {
-        // Try next path
+        // Profile was deleted; fall back to the default profile
       }
     }
     
-    // Default to standard location even if it doesn't exist yet
-    return path.join(basePath, 'keybindings.json');
+    return path.join(this.getUserDataPath(), 'keybindings.json');
   }
   
   /**
-   * Find profile-specific keybindings paths
+   * Get the running editor's User directory for the current platform
    */
-  private findProfileKeybindings(userPath: string): string[] {
-    const profilesPath = path.join(userPath, 'profiles');
-    const paths: string[] = [];
-    
-    try {
-      const fs = require('fs');
-      if (fs.existsSync(profilesPath)) {
-        const profiles = fs.readdirSync(profilesPath);
-        
-        // Add all profile keybindings paths
-        for (const profile of profiles) {
-          const profileKeybindings = path.join(profilesPath, profile, 'keybindings.json');
-          if (fs.existsSync(profileKeybindings)) {
-            paths.push(profileKeybindings);
-          }
-        }
-      }
-    } catch (error) {
-      // Ignore errors, will fall back to default
-    }
-    
-    return paths;
+  private getUserDataPath(): string {
+    return EditorDiscovery.getUserPath(this.detectEditorName());
   }
   
   /**
@@ -322,8 +743,15 @@ export class SyncController {
       const pattern = new vscode.RelativePattern(path.dirname(watchPath), path.basename(watchPath));
       this.fileWatcher = vscode.workspace.createFileSystemWatcher(pattern);
       
-      this.fileWatcher.onDidChange(async () => {
-        await this.handleFileChange(watchPath);
+      // Saves often arrive in bursts; only re-sync once they settle
+      this.fileWatcher.onDidChange(() => {
+        if (this.fileChangeTimer) {
+          clearTimeout(this.fileChangeTimer);
+        }
+        this.fileChangeTimer = setTimeout(() => {
+          this.fileChangeTimer = undefined;
+          this.handleFileChange(watchPath);
+        }, SyncController.FILE_CHANGE_DEBOUNCE_MS);
       });
       
       console.log(`Watching for changes: ${watchPath}`);
@@ -340,14 +768,11 @@ export class SyncController {
     const autoSync = config.get<boolean>('autoSync', true);
     
     if (autoSync) {
-      // Auto-sync silently
+      // Auto-sync, then summarize what the edit changed
       try {
+        const before = await this.getBindings();
         await this.syncFromPath(filePath);
-        vscode.window.showInformationMessage('ChordMap: Keybindings auto-synced', 'View').then(action => {
-          if (action === 'View') {
-            vscode.commands.executeCommand('workbench.view.extension.chordmap');
-          }
-        });
+        this.showChangeSummary(before, await this.getBindings());
       } catch (error) {
         console.error('Auto-sync on file change failed:', error);
       }
@@ -361,15 +786,53 @@ export class SyncController {
       
       if (response === 'Sync Now') {
         try {
-          await this.syncFromPath(filePath);
-          vscode.window.showInformationMessage('Keybindings synced successfully!');
+          const result = await this.syncFromPath(filePath);
+          this.showSyncSummary(result);
         } catch (error) {
-          vscode.window.showErrorMessage(`Failed to sync: ${error}`);
+          this.showSyncError(error);
         }
       }
     }
   }
   
+  /**
+   * Show "2 added, 1 removed, 1 conflict introduced" after an auto-sync
+   * Saves that change no bindings (e.g., formatting) stay silent
+   */
+  private showChangeSummary(before: ParsedKeybinding[], after: ParsedKeybinding[]): void {
+    const changes = KeymapDiffer.changes(KeymapDiffer.customizations(before), KeymapDiffer.customizations(after));
+    const conflicts = ConflictDetector.findIntroducedConflicts(before, after);
+    
+    if (!KeymapDiffer.hasChanges(changes) && conflicts.length === 0) {
+      return;
+    }
+    
+    const parts = KeymapDiffer.hasChanges(changes) ? [KeymapDiffer.summarizeChanges(changes)] : [];
+    if (conflicts.length > 0) {
+      parts.push(`${conflicts.length} conflict${conflicts.length !== 1 ? 's' : ''} introduced`);
+    }
+    
+    const show = conflicts.length > 0 ? vscode.window.showWarningMessage : vscode.window.showInformationMessage;
+    show(`ChordMap: ${parts.join(', ')}`, 'Show Changes', 'View').then(async action => {
+      if (action === 'Show Changes') {
+        const lines = [KeymapDiffer.changesToMarkdown(`Keybindings changed at ${new Date().toLocaleTimeString()}`, changes)];
+        
+        if (conflicts.length > 0) {
+          lines.push(`## Conflicts introduced (${conflicts.length})`, '');
+          for (const [a, b] of conflicts) {
+            lines.push(`- \`${a.key}\` → \`${a.command}\` conflicts with \`${b.key}\` → \`${b.command}\``);
+          }
+          lines.push('');
+        }
+        
+        const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: lines.join('\n') });
+        await vscode.window.showTextDocument(document, { preview: true });
+      } else if (action === 'View') {
+        vscode.commands.executeCommand('workbench.view.extension.chordmap');
+      }
+    });
+  }
+  
   /**
    * Dispose resources
    */
@@ -377,5 +840,16 @@ export class SyncController {
     if (this.fileWatcher) {
       this.fileWatcher.dispose();
     }
+    
+    if (this.fileChangeTimer) {
+      clearTimeout(this.fileChangeTimer);
+    }
+    
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+    this.onDidSyncEmitter.dispose();
+    this.diagnostics.dispose();
   }
 }
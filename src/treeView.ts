@@ -4,28 +4,41 @@
  * Provides the TreeView visualization for keybindings:
  * - Hierarchical display of prefix chains
  * - Category grouping
- * - Visual indicators for disabled bindings, when clauses
+ * - Visual indicators for disabled bindings, when clauses, conflicts
+ * - Problems found by the keymap linter
  * - Icons and tooltips
  */
 
 import * as vscode from 'vscode';
-import * as os from 'os';
-import { ParsedKeybinding, PrefixNode, SyncMetadata } from './types';
+import { ChainedCommand, ConflictGroup, LintGroup, LintRuleId, ParsedKeybinding, PrefixNode, SyncMetadata } from './types';
 import { PrefixGraphBuilder } from './prefixGraph';
 import { SettingsManager } from './settingsManager';
 import { KeybindingParser } from './parser';
 import { LiveChordTracker } from './liveTracker';
 import { BlocksView } from './blocksView';
+import { ConflictDetector } from './conflictDetector';
+import { CategoryRuleEngine } from './categoryRules';
+import { KeymapLinter } from './keymapLinter';
 
 /**
  * Tree item types
  */
-type TreeItemType = 'category' | 'prefix' | 'binding' | 'metadata' | 'empty';
+type TreeItemType =
+  | 'category'
+  | 'prefix'
+  | 'binding'
+  | 'metadata'
+  | 'empty'
+  | 'conflicts'
+  | 'conflictGroup'
+  | 'problems'
+  | 'lintRule'
+  | 'chainStep';
 
 /**
  * Tree item data
  */
-interface ChordMapTreeItem {
+export interface ChordMapTreeItem {
   type: TreeItemType;
   label: string;
   description?: string;
@@ -39,8 +52,21 @@ interface ChordMapTreeItem {
   prefixNode?: PrefixNode;
   binding?: ParsedKeybinding;
   metadata?: SyncMetadata;
+  conflictGroup?: ConflictGroup;
+  chainStep?: ChainedCommand;
+  lintRule?: LintRuleId;
 }
 
+/**
+ * Display names for binding origins
+ */
+const ORIGIN_LABELS: Record<string, string> = {
+  default: 'Default keymap',
+  extension: 'Extension',
+  user: 'User keybindings.json',
+  removed: 'Default removed by user'
+};
+
 export class ChordMapTreeDataProvider implements vscode.TreeDataProvider<ChordMapTreeItem> {
   private _onDidChangeTreeData = new vscode.EventEmitter<ChordMapTreeItem | undefined | null | void>();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
@@ -49,6 +75,8 @@ export class ChordMapTreeDataProvider implements vscode.TreeDataProvider<ChordMa
   private prefixTree: Map<string, PrefixNode> | undefined;
   private syncMetadata: SyncMetadata | undefined;
   private allBindings: ParsedKeybinding[] = [];
+  private conflictGroups: ConflictGroup[] = [];
+  private lintGroups: LintGroup[] = [];
   private blocksView: BlocksView;
   
   constructor(
@@ -99,6 +127,38 @@ export class ChordMapTreeDataProvider implements vscode.TreeDataProvider<ChordMa
     
     // Build prefix tree
     this.prefixTree = PrefixGraphBuilder.buildPrefixTree(this.bindings);
+    
+    // Group conflicts among visible bindings
+    this.conflictGroups = ConflictDetector.getConflictGroups(this.bindings);
+    
+    // Problems are about the file, so filters don't hide them
+    this.lintGroups = KeymapLinter.groupByRule(KeymapLinter.getFlagged(this.allBindings));
+  }
+  
+  /**
+   * Bindings represented by tree items (bulk actions on a selection)
+   * Categories, prefixes and conflict groups stand for all their visible bindings
+   */
+  getBindingsForItems(items: ChordMapTreeItem[]): ParsedKeybinding[] {
+    const bindings = new Set<ParsedKeybinding>();
+    
+    for (const item of items) {
+      if (item.binding) {
+        bindings.add(item.binding);
+      } else if (item.type === 'category' && item.category) {
+        this.bindings.filter(b => b.category === item.category).forEach(b => bindings.add(b));
+      } else if (item.prefixNode) {
+        PrefixGraphBuilder.flattenTree(new Map([[item.prefixNode.chord, item.prefixNode]])).forEach(b => bindings.add(b));
+      } else if (item.conflictGroup) {
+        item.conflictGroup.bindings.forEach(b => bindings.add(b));
+      } else if (item.type === 'problems' || item.type === 'lintRule') {
+        this.lintGroups
+          .filter(group => item.type === 'problems' || group.rule === item.lintRule)
+          .forEach(group => group.bindings.forEach(b => bindings.add(b)));
+      }
+    }
+    
+    return Array.from(bindings);
   }
   
   /**
@@ -153,8 +213,26 @@ export class ChordMapTreeDataProvider implements vscode.TreeDataProvider<ChordMa
       case 'prefix':
         return this.getPrefixChildren(element.prefixNode!);
       
-      case 'metadata':
+      case 'conflicts':
+        return this.conflictGroups.map(group => this.createConflictGroupItem(group));
+      
+      case 'conflictGroup':
+        return element.conflictGroup!.bindings.map(b => this.createBindingItem(b));
+      
+      case 'problems':
+        return this.lintGroups.map(group => this.createLintRuleItem(group));
+      
+      case 'lintRule':
+        return (this.lintGroups.find(group => group.rule === element.lintRule)?.bindings || [])
+          .map(b => this.createBindingItem(b));
+      
       case 'binding':
+        return (element.binding!.chain || []).map((step, i) => this.createChainStepItem(step, i));
+      
+      case 'chainStep':
+        return (element.chainStep!.chain || []).map((step, i) => this.createChainStepItem(step, i));
+      
+      case 'metadata':
       case 'empty':
       default:
         return [];
@@ -179,6 +257,15 @@ export class ChordMapTreeDataProvider implements vscode.TreeDataProvider<ChordMa
       return items;
     }
     
+    // Surface problems and conflicts above the regular layout
+    if (this.lintGroups.length > 0) {
+      items.push(this.createProblemsItem());
+    }
+    
+    if (this.conflictGroups.length > 0) {
+      items.push(this.createConflictsItem());
+    }
+    
     // Render based on view mode
     switch (config.viewMode) {
       case 'list':
@@ -263,7 +350,7 @@ export class ChordMapTreeDataProvider implements vscode.TreeDataProvider<ChordMa
       type: 'category',
       label: category,
       description: `${count} binding${count !== 1 ? 's' : ''}`,
-      iconPath: new vscode.ThemeIcon('symbol-namespace'),
+      iconPath: this.getCategoryIcon(category, 'symbol-namespace'),
       collapsibleState: shouldAutoExpand ? 
         vscode.TreeItemCollapsibleState.Expanded : 
         vscode.TreeItemCollapsibleState.Collapsed,
@@ -325,18 +412,102 @@ export class ChordMapTreeDataProvider implements vscode.TreeDataProvider<ChordMa
   private createMetadataItem(): ChordMapTreeItem {
     const lastSync = new Date(this.syncMetadata!.lastSync);
     const timeAgo = this.getTimeAgo(lastSync);
+    const partial = !!this.syncMetadata!.partialDefaults;
     
     return {
       type: 'metadata',
       label: `Last Sync: ${timeAgo}`,
-      description: `${this.syncMetadata!.bindingCount} bindings`,
-      tooltip: `Editor: ${this.syncMetadata!.editorName}\nPath: ${this.syncMetadata!.filePath}\nSynced: ${lastSync.toLocaleString()}`,
-      iconPath: new vscode.ThemeIcon('info'),
+      description: [
+        this.syncMetadata!.profileName,
+        `${this.syncMetadata!.bindingCount} bindings`,
+        partial ? 'partial defaults' : undefined
+      ].filter(Boolean).join(' · '),
+      tooltip: [
+        `Editor: ${this.syncMetadata!.editorName}`,
+        ...(this.syncMetadata!.profileName ? [`Profile: ${this.syncMetadata!.profileName}`] : []),
+        `Path: ${this.syncMetadata!.filePath}`,
+        `Synced: ${lastSync.toLocaleString()}`,
+        ...(partial
+          ? ['Defaults: partial bundled snapshot for the target platform, so conflicts, free chords and removal checks may miss defaults']
+          : [])
+      ].join('\n'),
+      iconPath: partial ? new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground')) : new vscode.ThemeIcon('info'),
       contextValue: 'metadata',
       metadata: this.syncMetadata
     };
   }
   
+  /**
+   * Create conflicts root item
+   */
+  private createConflictsItem(): ChordMapTreeItem {
+    const count = this.conflictGroups.length;
+    
+    return {
+      type: 'conflicts',
+      label: 'Conflicts',
+      description: `${count} key sequence${count !== 1 ? 's' : ''}`,
+      tooltip: 'Bindings that share a key sequence (or chord prefix) in overlapping contexts',
+      iconPath: new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground')),
+      collapsibleState: vscode.TreeItemCollapsibleState.Collapsed,
+      contextValue: 'conflicts'
+    };
+  }
+  
+  /**
+   * Create item for one group of conflicting bindings
+   */
+  private createConflictGroupItem(group: ConflictGroup): ChordMapTreeItem {
+    const platform = this.settingsManager.getTargetPlatform();
+    const count = group.bindings.length;
+    
+    return {
+      type: 'conflictGroup',
+      label: KeybindingParser.normalizeKeySequenceForDisplay(group.key, platform),
+      description: `${count} binding${count !== 1 ? 's' : ''}`,
+      tooltip: group.bindings.map(b => `${b.key} → ${b.command}${b.when ? ` (when: ${b.when})` : ''}`).join('\n'),
+      iconPath: new vscode.ThemeIcon('keyboard'),
+      collapsibleState: vscode.TreeItemCollapsibleState.Collapsed,
+      contextValue: 'conflictGroup',
+      conflictGroup: group
+    };
+  }
+  
+  /**
+   * Create problems root item
+   */
+  private createProblemsItem(): ChordMapTreeItem {
+    const count = KeymapLinter.getFlagged(this.allBindings).length;
+    
+    return {
+      type: 'problems',
+      label: 'Problems',
+      description: `${count} entr${count !== 1 ? 'ies' : 'y'}`,
+      tooltip: 'keybindings.json entries that are duplicated, removed nothing, bind unknown commands or never fire',
+      iconPath: new vscode.ThemeIcon('lightbulb', new vscode.ThemeColor('list.warningForeground')),
+      collapsibleState: vscode.TreeItemCollapsibleState.Collapsed,
+      contextValue: 'problems'
+    };
+  }
+  
+  /**
+   * Create item for the entries flagged by one lint rule
+   */
+  private createLintRuleItem(group: LintGroup): ChordMapTreeItem {
+    const count = group.bindings.length;
+    
+    return {
+      type: 'lintRule',
+      label: group.title,
+      description: `${count} entr${count !== 1 ? 'ies' : 'y'}`,
+      tooltip: `chordMap.lintRules: ${group.rule}`,
+      iconPath: new vscode.ThemeIcon('checklist'),
+      collapsibleState: vscode.TreeItemCollapsibleState.Collapsed,
+      contextValue: 'lintRule',
+      lintRule: group.rule
+    };
+  }
+  
   /**
    * Create empty state item
    */
@@ -379,7 +550,7 @@ export class ChordMapTreeDataProvider implements vscode.TreeDataProvider<ChordMa
       type: 'category',
       label: category,
       description: `${count} binding${count !== 1 ? 's' : ''}`,
-      iconPath: new vscode.ThemeIcon('folder'),
+      iconPath: this.getCategoryIcon(category, 'folder'),
       collapsibleState: shouldAutoExpand ? 
         vscode.TreeItemCollapsibleState.Expanded : 
         vscode.TreeItemCollapsibleState.Collapsed,
@@ -388,11 +559,23 @@ export class ChordMapTreeDataProvider implements vscode.TreeDataProvider<ChordMa
     };
   }
   
+  /**
+   * Get category icon, honoring icon/color from user category rules
+   */
+  private getCategoryIcon(category: string, defaultIcon: string): vscode.ThemeIcon {
+    const style = CategoryRuleEngine.getStyle(category, this.settingsManager.getCategoryRules());
+    
+    return new vscode.ThemeIcon(
+      style.icon || defaultIcon,
+      style.color ? new vscode.ThemeColor(style.color) : undefined
+    );
+  }
+  
   /**
    * Create prefix node item
    */
   private createPrefixItem(node: PrefixNode): ChordMapTreeItem {
-    const platform = os.platform() as 'darwin' | 'win32' | 'linux';
+    const platform = this.settingsManager.getTargetPlatform();
     const displayChord = KeybindingParser.normalizeChordForDisplay(
       KeybindingParser.parseChord(node.chord),
       platform
@@ -446,6 +629,17 @@ export class ChordMapTreeDataProvider implements vscode.TreeDataProvider<ChordMa
       }
     }
     
+    // Append summarized args so bindings of the same command are distinguishable
+    const argsSummary = KeybindingParser.summarizeArgs(binding.args);
+    if (argsSummary) {
+      description = description ? `${description} · ${argsSummary}` : argsSummary;
+    }
+    
+    if (binding.tags && binding.tags.length > 0) {
+      const tags = binding.tags.map(tag => `#${tag}`).join(' ');
+      description = description ? `${description} · ${tags}` : tags;
+    }
+    
     // Build tooltip
     const tooltipParts: string[] = [];
     tooltipParts.push(`Command: ${binding.command}`);
@@ -453,6 +647,17 @@ export class ChordMapTreeDataProvider implements vscode.TreeDataProvider<ChordMa
       tooltipParts.push(`Title: ${binding.commandLabel}`);
     }
     tooltipParts.push(`Key: ${binding.key}`);
+    if (binding.args !== undefined) {
+      tooltipParts.push(`Args: ${JSON.stringify(binding.args, null, 2)}`);
+    }
+    if (binding.origin) {
+      const originLabel = ORIGIN_LABELS[binding.origin] || binding.origin;
+      tooltipParts.push(
+        binding.origin === 'extension'
+          ? `Source: ${originLabel} (${binding.sourceEditor})`
+          : `Source: ${originLabel}`
+      );
+    }
     
     if (binding.when && config.showWhenClauses) {
       tooltipParts.push(`When: ${binding.when}`);
@@ -462,11 +667,41 @@ export class ChordMapTreeDataProvider implements vscode.TreeDataProvider<ChordMa
       tooltipParts.push(`Category: ${binding.category}`);
     }
     
+    if (binding.tags && binding.tags.length > 0) {
+      tooltipParts.push(`Tags: ${binding.tags.join(', ')}`);
+    }
+    
+    const hasKeyProblems = !!binding.keyProblems && binding.keyProblems.length > 0;
+    if (hasKeyProblems) {
+      tooltipParts.push(`Invalid key:\n${binding.keyProblems!.map(p => `  ${p}`).join('\n')}`);
+    }
+    
+    const hasConflicts = !!binding.conflictsWith && binding.conflictsWith.length > 0;
+    if (hasConflicts) {
+      tooltipParts.push(`Conflicts with:\n${binding.conflictsWith!.map(r => `  ${r}`).join('\n')}`);
+    }
+    
+    if (binding.lintFindings && binding.lintFindings.length > 0) {
+      tooltipParts.push(`Problems:\n${binding.lintFindings.map(f => `  ${f.message}`).join('\n')}`);
+    }
+    
     // Icon based on binding type
     let icon = 'symbol-event';
+    let iconColor: vscode.ThemeColor | undefined;
     if (binding.disabled) {
       icon = 'circle-slash';
-      label = `${label} (disabled)`;
+      label = `${label} (${binding.origin === 'removed' ? 'removed' : 'disabled'})`;
+    } else if (hasKeyProblems) {
+      icon = 'error';
+      iconColor = new vscode.ThemeColor('list.errorForeground');
+      label = `${label} (invalid key)`;
+    } else if (hasConflicts) {
+      icon = 'warning';
+      iconColor = new vscode.ThemeColor('list.warningForeground');
+    }
+    
+    if (binding.chain) {
+      tooltipParts.push(`Runs:\n${binding.chain.map(step => `  ${step.command}`).join('\n')}`);
     }
     
     return {
@@ -474,12 +709,46 @@ export class ChordMapTreeDataProvider implements vscode.TreeDataProvider<ChordMa
       label,
       description,
       tooltip: tooltipParts.join('\n'),
-      iconPath: new vscode.ThemeIcon(icon),
+      iconPath: new vscode.ThemeIcon(icon, iconColor),
       contextValue: 'binding',
+      collapsibleState: binding.chain
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None,
       binding
     };
   }
   
+  /**
+   * Create an item for one step of a command chain
+   */
+  private createChainStepItem(step: ChainedCommand, index: number): ChordMapTreeItem {
+    const args = KeybindingParser.summarizeArgs(step.args);
+    const tooltipParts = [`Command: ${step.command}`];
+    
+    if (step.commandLabel) {
+      tooltipParts.push(`Title: ${step.commandLabel}`);
+    }
+    if (step.category) {
+      tooltipParts.push(`Category: ${step.category}`);
+    }
+    if (step.args !== undefined) {
+      tooltipParts.push(`Args: ${JSON.stringify(step.args, null, 2)}`);
+    }
+    
+    return {
+      type: 'chainStep',
+      label: `${index + 1}. ${step.commandLabel || step.command}`,
+      description: [step.commandLabel ? step.command : '', args || ''].filter(Boolean).join(' · '),
+      tooltip: tooltipParts.join('\n'),
+      iconPath: new vscode.ThemeIcon(step.chain ? 'list-ordered' : 'debug-step-over'),
+      contextValue: 'chainStep',
+      collapsibleState: step.chain
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None,
+      chainStep: step
+    };
+  }
+  
   /**
    * Get unique categories from bindings
    */
@@ -12,12 +12,21 @@ export interface ParsedKeybinding {
   /** Context clause for when this binding is active */
   when?: string;
   
+  /** Arguments passed to the command, as written in keybindings.json */
+  args?: unknown;
+  
+  /** Parsed form of the when clause (undefined if absent or unparseable) */
+  whenAst?: WhenClauseNode;
+  
   /** Whether this binding disables another */
   disabled: boolean;
   
-  /** Which editor this binding came from */
+  /** Which editor (or extension id, for contributed bindings) this binding came from */
   sourceEditor: string;
   
+  /** Where the binding comes from in the effective keymap */
+  origin: KeybindingOrigin;
+  
   /** Human-readable command label (fetched from VS Code) */
   commandLabel?: string;
   
@@ -27,10 +36,298 @@ export interface ParsedKeybinding {
   /** Whether this is a multi-chord sequence */
   isMultiChord: boolean;
   
-  /** Array of key sequences this binding conflicts with */
+  /** Unknown key or modifier tokens (the binding never fires) */
+  keyProblems?: string[];
+  
+  /** Rival bindings ("key → command") active in an overlapping context */
   conflictsWith?: string[];
+  
+  /** Location of the entry in its source file (user keybindings.json only) */
+  range?: SourceRange;
+  
+  /** Commands run by runCommands-style bindings, expanded from args */
+  chain?: ChainedCommand[];
+  
+  /** User-assigned tags (kept in the keymap store, not keybindings.json) */
+  tags?: string[];
+  
+  /** Lint findings (user keybindings.json entries only) */
+  lintFindings?: LintFinding[];
+}
+
+/**
+ * One step of a command chain (e.g., an entry of runCommands' args.commands)
+ */
+export interface ChainedCommand {
+  command: string;
+  args?: unknown;
+  commandLabel?: string;
+  category?: string;
+  
+  /** Nested chain when the step is itself a chain command */
+  chain?: ChainedCommand[];
+}
+
+export interface SourceRange {
+  /** Character offset of the entry */
+  offset: number;
+  
+  /** Length of the entry in characters */
+  length: number;
+}
+
+/**
+ * A problem found while parsing keybindings.json
+ */
+export interface KeybindingProblem {
+  message: string;
+  severity: 'error' | 'warning' | 'info';
+  
+  /** Location the problem applies to */
+  range: SourceRange;
+  
+  /** Machine-readable problem kind (e.g., "syntax", "invalidEntry") */
+  code: string;
+}
+
+/**
+ * Named keymap lint rules
+ * - duplicateEntry: exact copy of an earlier entry
+ * - ineffectiveRemoval: "-command" entry that removes nothing
+ * - unknownCommand: command no installed extension or the editor registers
+ * - overriddenEntry: entry a later entry with the same key and context replaces
+ */
+export type LintRuleId = 'duplicateEntry' | 'ineffectiveRemoval' | 'unknownCommand' | 'overriddenEntry';
+
+/** Configured severity of a lint rule ("off" disables it) */
+export type LintSeverity = KeybindingProblem['severity'] | 'off';
+
+/**
+ * A lint rule violation on one binding
+ */
+export interface LintFinding {
+  rule: LintRuleId;
+  severity: KeybindingProblem['severity'];
+  message: string;
+}
+
+export interface LintGroup {
+  rule: LintRuleId;
+  
+  /** Short name of the rule (e.g., "Duplicate entries") */
+  title: string;
+  
+  /** Bindings the rule flagged */
+  bindings: ParsedKeybinding[];
+}
+
+export interface KeybindingParseResult {
+  /** Successfully parsed bindings */
+  bindings: ParsedKeybinding[];
+  
+  /** Syntax errors and per-entry problems */
+  problems: KeybindingProblem[];
+  
+  /** Number of entries skipped because they were invalid */
+  skipped: number;
+  
+  /** Whether the file has syntax errors that prevent a reliable sync */
+  hasSyntaxErrors: boolean;
+}
+
+/**
+ * A settings profile of an editor
+ */
+export interface EditorProfile {
+  /** Folder id under User/profiles (undefined for the default profile) */
+  id?: string;
+  
+  /** Display name from storage.json */
+  name: string;
+  
+  /** keybindings.json used by this profile */
+  keybindingsPath: string;
+  
+  /** Whether the profile shares the default profile's keybindings */
+  usesDefaultKeybindings: boolean;
+}
+
+/**
+ * An installed VS Code-based editor
+ */
+export interface EditorInstall {
+  /** Display name (e.g., "VS Code Insiders", "Cursor") */
+  name: string;
+  
+  /** The editor's User directory */
+  userPath: string;
+}
+
+/**
+ * A keymap synced from another editor, stored under its name
+ * Only holds the user's customizations (see KeymapDiffer.customizations)
+ */
+export interface NamedKeymap {
+  name: string;
+  metadata: SyncMetadata;
+  bindings: ParsedKeybinding[];
+}
+
+/**
+ * Differences between two keymaps
+ */
+export interface KeymapDiff {
+  /** Bindings only in the left keymap */
+  onlyInLeft: ParsedKeybinding[];
+  
+  /** Bindings only in the right keymap */
+  onlyInRight: ParsedKeybinding[];
+  
+  /** Same command and context bound to different keys */
+  changed: KeymapChange[];
+}
+
+export interface KeymapChange {
+  left: ParsedKeybinding[];
+  right: ParsedKeybinding[];
+}
+
+/**
+ * Changes between two versions of the same keymap, matched by key and when clause
+ */
+export interface KeymapChangeSet {
+  added: ParsedKeybinding[];
+  removed: ParsedKeybinding[];
+  
+  /** Same key and when clause, different command or args */
+  changed: { before: ParsedKeybinding; after: ParsedKeybinding }[];
+}
+
+/**
+ * A stored copy of a synced keybindings.json
+ */
+export interface KeymapSnapshot {
+  /** ISO timestamp of the sync that recorded it */
+  timestamp: string;
+  
+  /** File the snapshot was taken from */
+  filePath: string;
+  
+  /** SHA-256 of the content (first 12 hex digits) */
+  contentHash: string;
+  
+  /** Raw file content */
+  content: string;
+  
+  editorName: string;
+  profileName?: string;
+  
+  /** Entries parsed from the file */
+  bindingCount: number;
 }
 
+export interface SyncResult {
+  /** Entries synced from the user file */
+  synced: number;
+  
+  /** Entries skipped from the user file */
+  skipped: number;
+  
+  /** Problems reported for the user file */
+  problemCount: number;
+  
+  /** Bindings in the effective keymap */
+  bindingCount: number;
+}
+
+/**
+ * Origin of a binding in the effective keymap
+ * - default: shipped with the editor
+ * - extension: contributed by an installed extension (sourceEditor holds its id)
+ * - user: defined in the user's keybindings.json
+ * - removed: a default removed by a "-command" entry in the user file
+ */
+export type KeybindingOrigin = 'default' | 'extension' | 'user' | 'removed';
+
+export interface CommandMetadata {
+  /** Human-readable command title (e.g., "Pull") */
+  title: string;
+  
+  /** Command palette category (e.g., "Git") */
+  category?: string;
+  
+  /** Id of the contributing extension (undefined for built-in commands) */
+  extensionId?: string;
+  
+  /** Display name of the contributing extension */
+  extensionName?: string;
+}
+
+export interface ConflictGroup {
+  /** Shortest key sequence shared by the conflicting bindings */
+  key: string;
+  
+  /** Bindings that shadow each other */
+  bindings: ParsedKeybinding[];
+}
+
+/**
+ * When clause expression tree
+ * Mirrors the grammar of VS Code's context key expressions
+ */
+export type WhenClauseNode =
+  | WhenConstantNode
+  | WhenKeyNode
+  | WhenNotNode
+  | WhenLogicalNode
+  | WhenComparisonNode
+  | WhenRegexNode
+  | WhenInNode;
+
+export interface WhenConstantNode {
+  type: 'true' | 'false';
+}
+
+export interface WhenKeyNode {
+  /** Truthiness check of a context key (e.g., "editorFocus") */
+  type: 'key';
+  key: string;
+}
+
+export interface WhenNotNode {
+  type: 'not';
+  operand: WhenClauseNode;
+}
+
+export interface WhenLogicalNode {
+  type: 'and' | 'or';
+  operands: WhenClauseNode[];
+}
+
+export interface WhenComparisonNode {
+  type: 'equals' | 'notEquals' | 'greater' | 'greaterEquals' | 'smaller' | 'smallerEquals';
+  key: string;
+  value: string | number | boolean;
+}
+
+export interface WhenRegexNode {
+  /** Regex match against a context key (e.g., "resourceFilename =~ /docker/") */
+  type: 'regex';
+  key: string;
+  pattern: string;
+  flags: string;
+}
+
+export interface WhenInNode {
+  /** Membership of a key's value in another key's array/object value */
+  type: 'in' | 'notIn';
+  key: string;
+  collection: string;
+}
+
+/** Context key values used to evaluate when clauses */
+export type WhenContext = Record<string, unknown>;
+
 export interface KeyChord {
   /** Individual modifiers (cmd, ctrl, shift, alt, option) */
   modifiers: string[];
@@ -56,23 +353,118 @@ export interface PrefixNode {
   fullPath: string[];
 }
 
+/**
+ * An unused continuation of a prefix, suggested by the free-chord finder
+ */
+export interface FreeChord {
+  /** The continuation chord, as written in keybindings.json (e.g., "ctrl+p") */
+  chord: string;
+  
+  /** Full key sequence including the prefix (e.g., "ctrl+k ctrl+p") */
+  keySequence: string;
+  
+  /** Ergonomic cost (lower is easier to press) */
+  cost: number;
+  
+  /** Word of the target command name the key stands for, if any */
+  mnemonic?: string;
+}
+
+/**
+ * One binding rewritten by moving a prefix to a new leader
+ */
+export interface PrefixMove {
+  binding: ParsedKeybinding;
+  
+  /** Key sequence under the new leader */
+  newKey: string;
+  
+  /** Bindings outside the moved subtree that the new key would conflict with */
+  collisions: ParsedKeybinding[];
+}
+
+/**
+ * Every rewrite needed to move a prefix subtree (e.g., "cmd+alt+g *" to "ctrl+g *")
+ */
+export interface PrefixMovePlan {
+  from: string;
+  to: string;
+  moves: PrefixMove[];
+}
+
 export interface SyncMetadata {
   /** ISO timestamp of last sync */
   lastSync: string;
   
-  /** Editor name (VS Code, VS Code Insiders, Antigravity) */
+  /** Editor name (VS Code, VS Code Insiders, VSCodium, Cursor, Antigravity) */
   editorName: string;
   
   /** Path to synced keybindings.json */
   filePath: string;
   
+  /** Settings profile the file belongs to (undefined outside a known User directory) */
+  profileName?: string;
+  
+  /** Profile folder id (undefined for the default profile) */
+  profileId?: string;
+  
   /** Number of bindings synced */
   bindingCount: number;
   
+  /** Defaults came from a bundled snapshot that lists only part of the editor's defaults */
+  partialDefaults?: boolean;
+  
   /** Schema version for migration support */
   schemaVersion: number;
 }
 
+/**
+ * On-disk format of the keymap store (keymap.json in global storage)
+ */
+export interface StoredKeymapData {
+  /** Format version; older data is migrated on load */
+  schemaVersion: number;
+  
+  /** Metadata of the main keymap (undefined before the first sync) */
+  metadata?: SyncMetadata;
+  
+  /** Bindings of the main keymap */
+  bindings: ParsedKeybinding[];
+  
+  /** Keymaps synced from other editors, by editor name */
+  editorKeymaps: Record<string, NamedKeymap>;
+  
+  /** Tags by binding id (see KeybindingParser.getBindingId) */
+  tags: Record<string, string[]>;
+  
+  /** Snapshots of synced keybindings.json files, newest first */
+  history: KeymapSnapshot[];
+}
+
+/**
+ * User-defined category rule (chordMap.categoryRules)
+ * All specified matchers must match; the first matching rule wins
+ */
+export interface CategoryRule {
+  /** Category assigned to matching bindings */
+  category: string;
+  
+  /** Command id glob (e.g., "gitlens.*") or /regex/ */
+  command?: string;
+  
+  /** Substring the when clause must contain */
+  when?: string;
+  
+  /** Key sequence prefix (e.g., "cmd+k") */
+  key?: string;
+  
+  /** Codicon name for the category (e.g., "git-branch") */
+  icon?: string;
+  
+  /** Theme color id for the category (e.g., "charts.orange") */
+  color?: string;
+}
+
 export interface ChordMapConfig {
   autoSync: boolean;
   enableFileWatcher: boolean;
@@ -86,6 +478,10 @@ export interface ChordMapConfig {
   viewMode: 'tree' | 'list' | 'blocks';
   showCommandTitle: boolean;
   autoExpandOnSearch: boolean;
+  showOnlyCustomizations: boolean;
+  categoryRules: CategoryRule[];
+  targetPlatform: 'auto' | 'darwin' | 'win32' | 'linux';
+  lintRules: Partial<Record<LintRuleId, LintSeverity>>;
 }
 
 export interface ValidationResult {
@@ -101,5 +497,6 @@ export interface SearchResult {
     key?: boolean;
     command?: boolean;
     category?: boolean;
+    chain?: boolean;
   };
 }
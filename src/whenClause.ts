@@ -0,0 +1,734 @@
+/**
+ * When Clause Module
+ * 
+ * Tokenizes, parses and evaluates VS Code context key expressions
+ * (the "when" field of a keybinding).
+ * Supports:
+ * - Logical operators: &&, ||, !
+ * - Comparisons: ==, !=, <, <=, >, >=
+ * - Regex matching: =~ /pattern/flags
+ * - Membership: in, not in
+ * - Parentheses and true/false constants
+ */
+
+import { WhenClauseNode, WhenContext, WhenKeyNode } from './types';
+
+type TokenType =
+  | 'lparen'
+  | 'rparen'
+  | 'not'
+  | 'and'
+  | 'or'
+  | 'eq'
+  | 'neq'
+  | 'lt'
+  | 'lte'
+  | 'gt'
+  | 'gte'
+  | 'regexOp'
+  | 'regex'
+  | 'in'
+  | 'notKeyword'
+  | 'string'
+  | 'word'
+  | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  offset: number;
+}
+
+/**
+ * Error raised for malformed when clauses
+ */
+export class WhenClauseParseError extends Error {
+  constructor(message: string, public readonly offset: number) {
+    super(message);
+    this.name = 'WhenClauseParseError';
+  }
+}
+
+export class WhenClauseParser {
+  
+  /**
+   * Parse a when clause into an expression tree
+   * Throws WhenClauseParseError on malformed input
+   */
+  static parse(expression: string): WhenClauseNode {
+    const tokens = this.tokenize(expression);
+    const state = { tokens, pos: 0 };
+    
+    if (tokens[0].type === 'eof') {
+      throw new WhenClauseParseError('Empty when clause', 0);
+    }
+    
+    const node = this.parseOr(state);
+    const trailing = state.tokens[state.pos];
+    
+    if (trailing.type !== 'eof') {
+      throw new WhenClauseParseError(`Unexpected "${trailing.value}"`, trailing.offset);
+    }
+    
+    return node;
+  }
+  
+  /**
+   * Parse a when clause, returning undefined instead of throwing
+   */
+  static tryParse(expression: string | undefined): WhenClauseNode | undefined {
+    if (!expression || !expression.trim()) {
+      return undefined;
+    }
+    
+    try {
+      return this.parse(expression);
+    } catch {
+      return undefined;
+    }
+  }
+  
+  /**
+   * Split an expression into tokens
+   */
+  static tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    
+    while (i < expression.length) {
+      const ch = expression[i];
+      
+      if (/\s/.test(ch)) {
+        i++;
+        continue;
+      }
+      
+      const two = expression.slice(i, i + 2);
+      const three = expression.slice(i, i + 3);
+      
+      if (ch === '(') {
+        tokens.push({ type: 'lparen', value: ch, offset: i++ });
+      } else if (ch === ')') {
+        tokens.push({ type: 'rparen', value: ch, offset: i++ });
+      } else if (two === '&&') {
+        tokens.push({ type: 'and', value: two, offset: i });
+        i += 2;
+      } else if (two === '||') {
+        tokens.push({ type: 'or', value: two, offset: i });
+        i += 2;
+      } else if (three === '===' || three === '!==') {
+        tokens.push({ type: three === '===' ? 'eq' : 'neq', value: three, offset: i });
+        i += 3;
+      } else if (two === '==' || two === '!=') {
+        tokens.push({ type: two === '==' ? 'eq' : 'neq', value: two, offset: i });
+        i += 2;
+      } else if (two === '<=' || two === '>=') {
+        tokens.push({ type: two === '<=' ? 'lte' : 'gte', value: two, offset: i });
+        i += 2;
+      } else if (ch === '<' || ch === '>') {
+        tokens.push({ type: ch === '<' ? 'lt' : 'gt', value: ch, offset: i++ });
+      } else if (two === '=~') {
+        tokens.push({ type: 'regexOp', value: two, offset: i });
+        i += 2;
+        
+        // A regex literal may follow
+        while (i < expression.length && /\s/.test(expression[i])) {
+          i++;
+        }
+        
+        if (expression[i] === '/') {
+          const end = this.readRegex(expression, i);
+          tokens.push({ type: 'regex', value: expression.slice(i, end), offset: i });
+          i = end;
+        }
+      } else if (ch === '!') {
+        tokens.push({ type: 'not', value: ch, offset: i++ });
+      } else if (ch === '\'' || ch === '"') {
+        const start = i;
+        i++;
+        while (i < expression.length && expression[i] !== ch) {
+          i++;
+        }
+        
+        if (i >= expression.length) {
+          throw new WhenClauseParseError('Unterminated string', start);
+        }
+        
+        tokens.push({ type: 'string', value: expression.slice(start + 1, i), offset: start });
+        i++;
+      } else {
+        const start = i;
+        while (i < expression.length && !/[\s()!&|=<>'"]/.test(expression[i])) {
+          i++;
+        }
+        
+        if (i === start) {
+          throw new WhenClauseParseError(`Unexpected character "${ch}"`, i);
+        }
+        
+        const word = expression.slice(start, i);
+        const type: TokenType = word === 'in' ? 'in' : word === 'not' ? 'notKeyword' : 'word';
+        tokens.push({ type, value: word, offset: start });
+      }
+    }
+    
+    tokens.push({ type: 'eof', value: '', offset: expression.length });
+    return tokens;
+  }
+  
+  /**
+   * Find the end offset of a /regex/flags literal starting at `start`
+   */
+  private static readRegex(expression: string, start: number): number {
+    let i = start + 1;
+    let inClass = false;
+    
+    while (i < expression.length) {
+      const ch = expression[i];
+      
+      if (ch === '\\') {
+        i += 2;
+        continue;
+      }
+      
+      if (ch === '[') {
+        inClass = true;
+      } else if (ch === ']') {
+        inClass = false;
+      } else if (ch === '/' && !inClass) {
+        break;
+      }
+      
+      i++;
+    }
+    
+    if (i >= expression.length) {
+      throw new WhenClauseParseError('Unterminated regular expression', start);
+    }
+    
+    // Skip closing slash and flags
+    i++;
+    while (i < expression.length && /[a-z]/i.test(expression[i])) {
+      i++;
+    }
+    
+    return i;
+  }
+  
+  private static parseOr(state: { tokens: Token[]; pos: number }): WhenClauseNode {
+    const operands = [this.parseAnd(state)];
+    
+    while (state.tokens[state.pos].type === 'or') {
+      state.pos++;
+      operands.push(this.parseAnd(state));
+    }
+    
+    return operands.length === 1 ? operands[0] : { type: 'or', operands };
+  }
+  
+  private static parseAnd(state: { tokens: Token[]; pos: number }): WhenClauseNode {
+    const operands = [this.parseUnary(state)];
+    
+    while (state.tokens[state.pos].type === 'and') {
+      state.pos++;
+      operands.push(this.parseUnary(state));
+    }
+    
+    return operands.length === 1 ? operands[0] : { type: 'and', operands };
+  }
+  
+  private static parseUnary(state: { tokens: Token[]; pos: number }): WhenClauseNode {
+    if (state.tokens[state.pos].type === 'not') {
+      state.pos++;
+      return { type: 'not', operand: this.parseUnary(state) };
+    }
+    
+    return this.parsePrimary(state);
+  }
+  
+  private static parsePrimary(state: { tokens: Token[]; pos: number }): WhenClauseNode {
+    const token = state.tokens[state.pos];
+    
+    if (token.type === 'lparen') {
+      state.pos++;
+      const inner = this.parseOr(state);
+      
+      if (state.tokens[state.pos].type !== 'rparen') {
+        throw new WhenClauseParseError('Expected ")"', state.tokens[state.pos].offset);
+      }
+      
+      state.pos++;
+      return inner;
+    }
+    
+    if (token.type !== 'word' && token.type !== 'string') {
+      throw new WhenClauseParseError(
+        token.type === 'eof' ? 'Unexpected end of expression' : `Unexpected "${token.value}"`,
+        token.offset
+      );
+    }
+    
+    state.pos++;
+    const key = token.value;
+    
+    if (token.type === 'word' && (key === 'true' || key === 'false')) {
+      return { type: key };
+    }
+    
+    const operator = state.tokens[state.pos];
+    
+    switch (operator.type) {
+      case 'eq':
+      case 'neq': {
+        state.pos++;
+        const value = this.parseValue(state);
+        return { type: operator.type === 'eq' ? 'equals' : 'notEquals', key, value };
+      }
+      
+      case 'lt':
+      case 'lte':
+      case 'gt':
+      case 'gte': {
+        state.pos++;
+        const raw = this.parseValue(state);
+        const numeric = typeof raw === 'string' && raw.trim() !== '' && !isNaN(Number(raw));
+        const value = numeric ? Number(raw) : String(raw);
+        const typeMap = {
+          lt: 'smaller',
+          lte: 'smallerEquals',
+          gt: 'greater',
+          gte: 'greaterEquals'
+        } as const;
+        return { type: typeMap[operator.type], key, value };
+      }
+      
+      case 'regexOp': {
+        state.pos++;
+        const regexToken = state.tokens[state.pos];
+        
+        if (regexToken.type === 'regex') {
+          state.pos++;
+          const lastSlash = regexToken.value.lastIndexOf('/');
+          return {
+            type: 'regex',
+            key,
+            pattern: regexToken.value.slice(1, lastSlash),
+            flags: regexToken.value.slice(lastSlash + 1)
+          };
+        }
+        
+        // Non-literal right-hand side is treated as a plain pattern string
+        const value = this.parseValue(state);
+        return { type: 'regex', key, pattern: String(value), flags: '' };
+      }
+      
+      case 'in': {
+        state.pos++;
+        return { type: 'in', key, collection: this.parseKeyName(state) };
+      }
+      
+      case 'notKeyword': {
+        state.pos++;
+        
+        if (state.tokens[state.pos].type !== 'in') {
+          throw new WhenClauseParseError('Expected "in" after "not"', state.tokens[state.pos].offset);
+        }
+        
+        state.pos++;
+        return { type: 'notIn', key, collection: this.parseKeyName(state) };
+      }
+      
+      default:
+        return { type: 'key', key };
+    }
+  }
+  
+  /**
+   * Parse the right-hand side of a comparison
+   * Unquoted true/false become booleans, everything else stays a string
+   */
+  private static parseValue(state: { tokens: Token[]; pos: number }): string | boolean {
+    const token = state.tokens[state.pos];
+    
+    if (token.type === 'string') {
+      state.pos++;
+      return token.value;
+    }
+    
+    if (token.type === 'word' || token.type === 'in' || token.type === 'notKeyword') {
+      state.pos++;
+      if (token.value === 'true') {
+        return true;
+      }
+      if (token.value === 'false') {
+        return false;
+      }
+      return token.value;
+    }
+    
+    throw new WhenClauseParseError('Expected a value', token.offset);
+  }
+  
+  private static parseKeyName(state: { tokens: Token[]; pos: number }): string {
+    const token = state.tokens[state.pos];
+    
+    if (token.type !== 'word' && token.type !== 'string') {
+      throw new WhenClauseParseError('Expected a context key', token.offset);
+    }
+    
+    state.pos++;
+    return token.value;
+  }
+  
+  /**
+   * Convert an expression tree back into when clause syntax
+   */
+  static stringify(node: WhenClauseNode): string {
+    switch (node.type) {
+      case 'true':
+      case 'false':
+        return node.type;
+      case 'key':
+        return node.key;
+      case 'not': {
+        const inner = this.stringify(node.operand);
+        return node.operand.type === 'key' || node.operand.type === 'not' ? `!${inner}` : `!(${inner})`;
+      }
+      case 'and':
+        return node.operands
+          .map(op => (op.type === 'or' ? `(${this.stringify(op)})` : this.stringify(op)))
+          .join(' && ');
+      case 'or':
+        return node.operands.map(op => this.stringify(op)).join(' || ');
+      case 'equals':
+        return `${node.key} == ${this.stringifyValue(node.value)}`;
+      case 'notEquals':
+        return `${node.key} != ${this.stringifyValue(node.value)}`;
+      case 'greater':
+        return `${node.key} > ${node.value}`;
+      case 'greaterEquals':
+        return `${node.key} >= ${node.value}`;
+      case 'smaller':
+        return `${node.key} < ${node.value}`;
+      case 'smallerEquals':
+        return `${node.key} <= ${node.value}`;
+      case 'regex':
+        return `${node.key} =~ /${node.pattern}/${node.flags}`;
+      case 'in':
+        return `${node.key} in ${node.collection}`;
+      case 'notIn':
+        return `${node.key} not in ${node.collection}`;
+    }
+  }
+  
+  private static stringifyValue(value: string | number | boolean): string {
+    if (typeof value === 'string' && /[\s()!&|=<>]/.test(value)) {
+      return `'${value}'`;
+    }
+    return String(value);
+  }
+  
+  /**
+   * Collect all context keys referenced by an expression
+   */
+  static getContextKeys(node: WhenClauseNode): string[] {
+    const keys = new Set<string>();
+    
+    function traverse(current: WhenClauseNode) {
+      switch (current.type) {
+        case 'true':
+        case 'false':
+          return;
+        case 'not':
+          traverse(current.operand);
+          return;
+        case 'and':
+        case 'or':
+          current.operands.forEach(traverse);
+          return;
+        case 'in':
+        case 'notIn':
+          keys.add(current.key);
+          keys.add(current.collection);
+          return;
+        default:
+          keys.add(current.key);
+      }
+    }
+    
+    traverse(node);
+    return Array.from(keys);
+  }
+}
+
+export class WhenClauseEvaluator {
+  
+  /**
+   * Evaluate an expression tree against a map of context key values
+   */
+  static evaluate(node: WhenClauseNode, context: WhenContext): boolean {
+    switch (node.type) {
+      case 'true':
+        return true;
+      case 'false':
+        return false;
+      case 'key':
+        return !!context[node.key];
+      case 'not':
+        return !this.evaluate(node.operand, context);
+      case 'and':
+        return node.operands.every(op => this.evaluate(op, context));
+      case 'or':
+        return node.operands.some(op => this.evaluate(op, context));
+      case 'equals':
+        return this.looseEquals(context[node.key], node.value);
+      case 'notEquals':
+        return !this.looseEquals(context[node.key], node.value);
+      case 'greater':
+      case 'greaterEquals':
+      case 'smaller':
+      case 'smallerEquals':
+        return this.compare(node.type, context[node.key], node.value);
+      case 'regex':
+        return this.matchRegex(node.pattern, node.flags, context[node.key]);
+      case 'in':
+        return this.isIn(context[node.key], context[node.collection]);
+      case 'notIn':
+        return !this.isIn(context[node.key], context[node.collection]);
+    }
+  }
+  
+  /**
+   * Evaluate a raw when clause string
+   * Bindings without a when clause are always active
+   */
+  static evaluateExpression(expression: string | undefined, context: WhenContext): boolean {
+    if (!expression || !expression.trim()) {
+      return true;
+    }
+    
+    return this.evaluate(WhenClauseParser.parse(expression), context);
+  }
+  
+  private static looseEquals(actual: unknown, expected: string | number | boolean): boolean {
+    if (actual === undefined || actual === null) {
+      return false;
+    }
+    
+    if (typeof expected === 'boolean') {
+      return !!actual === expected && (typeof actual === 'boolean' || String(actual) === String(expected));
+    }
+    
+    return String(actual) === String(expected);
+  }
+  
+  private static compare(
+    type: 'greater' | 'greaterEquals' | 'smaller' | 'smallerEquals',
+    actual: unknown,
+    expected: string | number | boolean
+  ): boolean {
+    const left = typeof actual === 'number' ? actual : parseFloat(String(actual));
+    const right = typeof expected === 'number' ? expected : parseFloat(String(expected));
+    
+    if (isNaN(left) || isNaN(right)) {
+      return false;
+    }
+    
+    switch (type) {
+      case 'greater':
+        return left > right;
+      case 'greaterEquals':
+        return left >= right;
+      case 'smaller':
+        return left < right;
+      case 'smallerEquals':
+        return left <= right;
+    }
+  }
+  
+  private static matchRegex(pattern: string, flags: string, actual: unknown): boolean {
+    try {
+      return new RegExp(pattern, flags).test(actual === undefined || actual === null ? '' : String(actual));
+    } catch {
+      return false;
+    }
+  }
+  
+  private static isIn(value: unknown, collection: unknown): boolean {
+    if (value === undefined || value === null) {
+      return false;
+    }
+    
+    if (Array.isArray(collection)) {
+      return collection.includes(value);
+    }
+    
+    if (collection && typeof collection === 'object') {
+      return Object.prototype.hasOwnProperty.call(collection, String(value));
+    }
+    
+    return false;
+  }
+}
+
+/**
+ * A single (possibly negated) condition inside a conjunction
+ */
+interface WhenLiteral {
+  node: WhenClauseNode;
+  negated: boolean;
+}
+
+export class WhenClauseAnalyzer {
+  /** Cap on disjunctive normal form size before giving up and assuming overlap */
+  private static readonly MAX_CONJUNCTIONS = 64;
+  
+  /** Values a context key can be compared against that are falsy */
+  private static readonly FALSY_VALUES = new Set(['false', '0', '']);
+  
+  /**
+   * Check whether two when clauses can be true at the same time
+   * Conservative: returns true whenever overlap cannot be ruled out.
+   * A missing clause is always active.
+   */
+  static mayOverlap(a: WhenClauseNode | undefined, b: WhenClauseNode | undefined): boolean {
+    const left = a ? this.toDnf(a, false) : [[]];
+    const right = b ? this.toDnf(b, false) : [[]];
+    
+    if (!left || !right) {
+      return true;
+    }
+    
+    for (const leftConjunction of left) {
+      for (const rightConjunction of right) {
+        if (this.isConsistent([...leftConjunction, ...rightConjunction])) {
+          return true;
+        }
+      }
+    }
+    
+    return false;
+  }
+  
+  /**
+   * Check whether a when clause can ever be true
+   */
+  static isSatisfiable(node: WhenClauseNode): boolean {
+    const dnf = this.toDnf(node, false);
+    return !dnf || dnf.some(conjunction => this.isConsistent(conjunction));
+  }
+  
+  /**
+   * Convert an expression into disjunctive normal form
+   * Returns undefined if the expansion grows too large
+   */
+  private static toDnf(node: WhenClauseNode, negated: boolean): WhenLiteral[][] | undefined {
+    switch (node.type) {
+      case 'true':
+        return negated ? [] : [[]];
+      case 'false':
+        return negated ? [[]] : [];
+      case 'not':
+        return this.toDnf(node.operand, !negated);
+      case 'and':
+      case 'or': {
+        // De Morgan: a negated AND behaves like an OR of negations and vice versa
+        const isAnd = (node.type === 'and') !== negated;
+        const parts: WhenLiteral[][][] = [];
+        
+        for (const operand of node.operands) {
+          const part = this.toDnf(operand, negated);
+          if (!part) {
+            return undefined;
+          }
+          parts.push(part);
+        }
+        
+        if (!isAnd) {
+          const union = parts.flat();
+          return union.length > this.MAX_CONJUNCTIONS ? undefined : union;
+        }
+        
+        let product: WhenLiteral[][] = [[]];
+        for (const part of parts) {
+          const next: WhenLiteral[][] = [];
+          for (const existing of product) {
+            for (const conjunction of part) {
+              next.push([...existing, ...conjunction]);
+            }
+          }
+          if (next.length > this.MAX_CONJUNCTIONS) {
+            return undefined;
+          }
+          product = next;
+        }
+        return product;
+      }
+      default:
+        return [[{ node, negated }]];
+    }
+  }
+  
+  /**
+   * Check a conjunction of literals for contradictions
+   */
+  private static isConsistent(conjunction: WhenLiteral[]): boolean {
+    for (let i = 0; i < conjunction.length; i++) {
+      for (let j = i + 1; j < conjunction.length; j++) {
+        if (this.contradicts(conjunction[i], conjunction[j])) {
+          return false;
+        }
+      }
+    }
+    
+    return true;
+  }
+  
+  private static contradicts(a: WhenLiteral, b: WhenLiteral): boolean {
+    // The same condition asserted and negated
+    if (a.negated !== b.negated && WhenClauseParser.stringify(a.node) === WhenClauseParser.stringify(b.node)) {
+      return true;
+    }
+    
+    if (a.node.type === 'key' || b.node.type === 'key') {
+      const [keyLiteral, other] = a.node.type === 'key' ? [a, b] : [b, a];
+      const equality = this.asEquality(other);
+      
+      if (!equality || !equality.equal || equality.key !== (keyLiteral.node as WhenKeyNode).key) {
+        return false;
+      }
+      
+      // "!key" rules out key == <truthy>, "key" rules out key == <falsy>
+      const falsy = this.FALSY_VALUES.has(equality.value);
+      return keyLiteral.negated ? !falsy : falsy;
+    }
+    
+    const left = this.asEquality(a);
+    const right = this.asEquality(b);
+    
+    if (!left || !right || left.key !== right.key) {
+      return false;
+    }
+    
+    // key == x && key == y (x != y), or key == x && key != x
+    if (left.equal && right.equal) {
+      return left.value !== right.value;
+    }
+    
+    return left.equal !== right.equal && left.value === right.value;
+  }
+  
+  /**
+   * Express a comparison literal as "key equals/doesn't equal value"
+   */
+  private static asEquality(literal: WhenLiteral): { key: string; equal: boolean; value: string } | undefined {
+    const node = literal.node;
+    
+    if (node.type === 'equals' || node.type === 'notEquals') {
+      const equal = (node.type === 'equals') !== literal.negated;
+      return { key: node.key, equal, value: String(node.value) };
+    }
+    
+    return undefined;
+  }
+}